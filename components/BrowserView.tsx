@@ -1,21 +1,44 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { TreeNode, FileData } from '@/types';
+import { TreeNode, FileData, StorageData, SaveState, FileSnapshot } from '@/types';
 import { useFontSize } from '@/contexts/FontSizeContext';
 import { ChevronDownIcon, ChevronRightIcon, PencilIcon, PlusIcon, TrashIcon, MinusIcon, ArrowUturnDownIcon } from '@heroicons/react/16/solid';
+import { generateNodeId, applyExpandedIds, serializeTreeToText } from '@/utils/treeParser';
 import { FileSelector } from './FileSelector';
+import { ExportMenu } from './ExportMenu';
+import { ImportMenu } from './ImportMenu';
+import { WorkspaceMenu } from './WorkspaceMenu';
+import { SaveStatus } from './SaveStatus';
+import { TrashMenu } from './TrashMenu';
+import { HistoryMenu } from './HistoryMenu';
 
 interface BrowserViewProps {
   files: FileData[];
   currentFileId: string;
   nodes: TreeNode[];
+  initialFocusedNodeId?: string | null;
   onToggleNode: (id: string) => void;
+  onExpandedIdsChange?: (expandedIds: Set<string>) => void;
+  onFocusedNodeChange?: (id: string | null) => void;
   onUpdateNodes: (nodes: TreeNode[]) => void;
+  onImportAsNewFiles: (trees: TreeNode[][]) => void;
   onSwitchToEditor: () => void;
   onFileSelect: (fileId: string) => void;
   onNewFile: () => void;
   onDeleteFile: (fileId: string) => void;
+  trash: FileData[];
+  trashRetentionDays: number;
+  onRestoreFromTrash: (fileId: string) => void;
+  onPurgeTrash: (fileIds: string[]) => void;
+  onTrashRetentionChange: (days: number) => void;
+  saveState: SaveState;
+  onRetrySave: () => void;
+  getWorkspaceData: () => StorageData;
+  onRestoreWorkspace: (data: StorageData) => void;
+  loadHistory: () => Promise<FileSnapshot[]>;
+  onRestoreSnapshot: (snapshot: FileSnapshot) => void;
+  onBeforeImport: () => void;
 }
 
 // フラット化されたノードの型（表示用）
@@ -41,15 +64,49 @@ export function BrowserView({
   files,
   currentFileId,
   nodes,
+  initialFocusedNodeId,
   onToggleNode,
+  onExpandedIdsChange,
+  onFocusedNodeChange,
   onUpdateNodes,
+  onImportAsNewFiles,
   onSwitchToEditor,
   onFileSelect,
   onNewFile,
   onDeleteFile,
+  trash,
+  trashRetentionDays,
+  onRestoreFromTrash,
+  onPurgeTrash,
+  onTrashRetentionChange,
+  saveState,
+  onRetrySave,
+  getWorkspaceData,
+  onRestoreWorkspace,
+  loadHistory,
+  onRestoreSnapshot,
+  onBeforeImport,
 }: BrowserViewProps) {
   const { fontSize, setFontSize, indentWidth } = useFontSize();
-  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [focusedIndex, setFocusedIndex] = useState(() => {
+    // 前回フォーカスしていたノードの表示位置を復元
+    if (!initialFocusedNodeId) return 0;
+    let index = 0;
+    let found = -1;
+    const traverse = (nodeList: TreeNode[]) => {
+      for (const node of nodeList) {
+        if (found !== -1) return;
+        if (node.id === initialFocusedNodeId) {
+          found = index;
+          return;
+        }
+        index++;
+        if (node.isExpanded && node.children) traverse(node.children);
+      }
+    };
+    traverse(nodes);
+    return Math.max(0, found);
+  });
   const [editingId, setEditingId] = useState<string | null>(null);
   const [expandedIds, setExpandedIds] = useState<Set<string>>(() => {
     const ids = new Set<string>();
@@ -134,6 +191,24 @@ export function BrowserView({
     }
   }, []);
 
+  // 初回表示時にフォーカス位置までスクロール
+  const initialScrollDoneRef = useRef(false);
+  useEffect(() => {
+    if (initialScrollDoneRef.current) return;
+    initialScrollDoneRef.current = true;
+    scrollToIndex(focusedIndex);
+  }, [focusedIndex, scrollToIndex]);
+
+  // 展開状態・フォーカス位置を親に通知（再パース後も位置を保つため）
+  useEffect(() => {
+    onExpandedIdsChange?.(expandedIds);
+  }, [expandedIds, onExpandedIdsChange]);
+
+  const focusedNodeId = flatNodes[focusedIndex]?.id ?? null;
+  useEffect(() => {
+    onFocusedNodeChange?.(focusedNodeId);
+  }, [focusedNodeId, onFocusedNodeChange]);
+
   // トグル処理
   const handleToggle = useCallback((id: string) => {
     setExpandedIds((prev) => {
@@ -253,7 +328,7 @@ export function BrowserView({
       if (!targetNode) return;
 
       const newNode: TreeNode = {
-        id: `node-${Date.now()}`,
+        id: generateNodeId(),
         text: '',
         depth: targetNode.depth,
         children: [],
@@ -305,7 +380,7 @@ export function BrowserView({
 
       const parentNode = targetNode.parent;
       const newNode: TreeNode = {
-        id: `node-${Date.now()}`,
+        id: generateNodeId(),
         text: '',
         depth: parentNode.depth,
         children: [],
@@ -428,7 +503,7 @@ export function BrowserView({
       const updateNode = (node: TreeNode): TreeNode => {
         if (node.id === id) {
           const newNode: TreeNode = {
-            id: `node-${Date.now()}`,
+            id: generateNodeId(),
             text: '',
             depth: node.depth + 1,
             children: [],
@@ -476,6 +551,28 @@ export function BrowserView({
     [nodes, onUpdateNodes, addToHistory]
   );
 
+  // 取り込んだツリーで更新（取り込んだノードと追加先の親を展開）
+  const handleImportIntoFile = useCallback(
+    (updatedNodes: TreeNode[], parentId: string | null) => {
+      onBeforeImport();
+      addToHistory(updatedNodes);
+      onUpdateNodes(updatedNodes);
+      setExpandedIds((prev) => {
+        const next = new Set(prev);
+        if (parentId) next.add(parentId);
+        const collect = (nodeList: TreeNode[]) => {
+          nodeList.forEach((node) => {
+            if (node.isExpanded && !nodeMap.has(node.id)) next.add(node.id);
+            collect(node.children);
+          });
+        };
+        collect(updatedNodes);
+        return next;
+      });
+    },
+    [onBeforeImport, onUpdateNodes, addToHistory, nodeMap]
+  );
+
   // ドラッグ開始
   const handleDragStart = useCallback((e: React.DragEvent, nodeId: string) => {
     setDraggingId(nodeId);
@@ -676,6 +773,9 @@ export function BrowserView({
 
       if (editingId) return;
 
+      // ダイアログなどの入力欄での操作はツリーに反映しない
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+
       const currentNode = flatNodes[focusedIndex];
       if (!currentNode) return;
 
@@ -828,6 +928,21 @@ export function BrowserView({
               onNewFile={onNewFile}
               onDeleteFile={onDeleteFile}
             />
+            <TrashMenu
+              trash={trash}
+              retentionDays={trashRetentionDays}
+              onRestore={onRestoreFromTrash}
+              onPurge={onPurgeTrash}
+              onRetentionChange={onTrashRetentionChange}
+            />
+            <WorkspaceMenu getData={getWorkspaceData} onRestore={onRestoreWorkspace} />
+            <HistoryMenu
+              fileName={files.find((f) => f.id === currentFileId)?.name ?? ''}
+              getCurrentText={() => serializeTreeToText(nodes)}
+              loadHistory={loadHistory}
+              onRestore={onRestoreSnapshot}
+            />
+            <SaveStatus files={files} trash={trash} saveState={saveState} onRetry={onRetrySave} />
             {/* フォントサイズ調整 */}
             <div className="flex items-center gap-1 bg-white dark:bg-gray-900 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
               <button
@@ -847,6 +962,19 @@ export function BrowserView({
               </button>
             </div>
 
+            <ExportMenu
+              fileName={files.find((f) => f.id === currentFileId)?.name ?? 'tree'}
+              getNodes={() => applyExpandedIds(nodes, expandedIds)}
+              getSelectedNode={() => nodeMap.get(flatNodes[focusedIndex]?.id) ?? null}
+            />
+
+            <ImportMenu
+              getNodes={() => nodes}
+              getSelectedNode={() => nodeMap.get(flatNodes[focusedIndex]?.id) ?? null}
+              onImportIntoFile={handleImportIntoFile}
+              onImportAsNewFiles={onImportAsNewFiles}
+            />
+
             <button onClick={handleExpandAll} className="px-3 py-1 text-sm bg-gray-500 hover:bg-gray-600 text-white rounded">
               全展開
             </button>
@@ -991,7 +1119,7 @@ export function BrowserView({
                             const addChildToNode = (n: TreeNode): TreeNode => {
                               if (n.id === node.id) {
                                 const newNode: TreeNode = {
-                                  id: `node-${Date.now()}`,
+                                  id: generateNodeId(),
                                   text: '',
                                   depth: n.depth + 1,
                                   children: [],
@@ -1082,7 +1210,7 @@ export function BrowserView({
                     ) : (
                       <>
                         <span
-                          className="flex-1 px-1 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 rounded font-mono whitespace-normal break-words"
+                          className="flex-1 px-1 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 rounded font-mono whitespace-pre-wrap break-words"
                           style={{ fontSize: `${fontSize}px`, lineHeight: '1.5' }}
                           onDoubleClick={() => setEditingId(node.id)}
                         >
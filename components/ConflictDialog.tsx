@@ -0,0 +1,66 @@
+'use client';
+
+import { ConflictResolution, FileConflict, FileData } from '@/types';
+
+interface ConflictDialogProps {
+  conflict: FileConflict;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+/**
+ * 更新日時を表示用の文字列に変換
+ * @param iso ISO形式の日時
+ * @returns 表示用の文字列
+ */
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+export function ConflictDialog({ conflict, onResolve }: ConflictDialogProps) {
+  const { local, remote } = conflict;
+
+  const renderVersion = (label: string, file: FileData) => (
+    <div className="flex-1 min-w-0 flex flex-col gap-1">
+      <div className="flex justify-between text-gray-500 dark:text-gray-400">
+        <span className="font-bold text-gray-900 dark:text-gray-100">{label}</span>
+        <span className="text-xs">{formatTime(file.lastModified)}</span>
+      </div>
+      <pre className="flex-1 min-h-[10rem] overflow-auto p-2 font-mono text-xs whitespace-pre bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded">
+        {file.rawText}
+      </pre>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="flex flex-col w-[56rem] max-w-[95vw] max-h-[85vh] p-4 gap-3 bg-white dark:bg-gray-800 rounded shadow-lg text-sm">
+        <div className="font-bold">「{local.name}」が他のタブでも編集されました</div>
+        <div className="text-gray-500 dark:text-gray-400">どちらの内容を残すか選んでください</div>
+
+        {/* 両方の内容 */}
+        <div className="flex-1 min-h-0 flex gap-3">
+          {renderVersion('このタブ', local)}
+          {renderVersion('他のタブ', remote)}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => onResolve('both')}
+            className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded"
+          >
+            両方残す
+          </button>
+          <button
+            onClick={() => onResolve('remote')}
+            className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded"
+          >
+            他のタブの内容を使う
+          </button>
+          <button onClick={() => onResolve('local')} className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded">
+            このタブの内容を残す
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
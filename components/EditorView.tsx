@@ -1,21 +1,48 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { importFile } from '@/utils/fileImporter';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  hasHtmlOutline,
+  convertHtmlToTabIndentedText,
+  isTreeDiagram,
+  convertTreeDiagramToTabIndentedText,
+} from '@/utils/fileImporter';
+import { detectIndentStyle, getIndentString, parseDocument, parseTextToTree, serializeTreeToText, normalizeIndentation, findNodeAtLine } from '@/utils/treeParser';
 import { useFontSize } from '@/contexts/FontSizeContext';
 import { MinusIcon, PlusIcon } from '@heroicons/react/16/solid';
-import { FileData } from '@/types';
+import { FileData, TreeNode, StorageData, SaveState, FileSnapshot } from '@/types';
 import { FileSelector } from './FileSelector';
+import { ExportMenu } from './ExportMenu';
+import { ImportMenu } from './ImportMenu';
+import { WorkspaceMenu } from './WorkspaceMenu';
+import { SaveStatus } from './SaveStatus';
+import { TrashMenu } from './TrashMenu';
+import { HistoryMenu } from './HistoryMenu';
 
 interface EditorViewProps {
   files: FileData[];
   currentFileId: string;
   initialText: string;
   onSave: (text: string) => void;
+  onDraftChange: (text: string | null) => void; // 自動保存を待っている編集内容（ない場合は null）
+  onImportNodes: (nodes: TreeNode[], text: string) => void;
+  onImportAsNewFiles: (trees: TreeNode[][]) => void;
+  getCurrentNodes: () => TreeNode[];
   onSwitchToBrowser: () => void;
   onFileSelect: (fileId: string) => void;
   onNewFile: () => void;
   onDeleteFile: (fileId: string) => void;
+  trash: FileData[];
+  trashRetentionDays: number;
+  onRestoreFromTrash: (fileId: string) => void;
+  onPurgeTrash: (fileIds: string[]) => void;
+  onTrashRetentionChange: (days: number) => void;
+  saveState: SaveState;
+  onRetrySave: () => void;
+  getWorkspaceData: () => StorageData;
+  onRestoreWorkspace: (data: StorageData) => void;
+  loadHistory: () => Promise<FileSnapshot[]>;
+  onRestoreSnapshot: (snapshot: FileSnapshot) => void;
 }
 
 export function EditorView({
@@ -23,16 +50,37 @@ export function EditorView({
   currentFileId,
   initialText,
   onSave,
+  onDraftChange,
+  onImportNodes,
+  onImportAsNewFiles,
+  getCurrentNodes,
   onSwitchToBrowser,
   onFileSelect,
   onNewFile,
   onDeleteFile,
+  trash,
+  trashRetentionDays,
+  onRestoreFromTrash,
+  onPurgeTrash,
+  onTrashRetentionChange,
+  saveState,
+  onRetrySave,
+  getWorkspaceData,
+  onRestoreWorkspace,
+  loadHistory,
+  onRestoreSnapshot,
 }: EditorViewProps) {
   const [text, setText] = useState(initialText);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const { fontSize, setFontSize, indentWidth } = useFontSize();
 
+  // 文書のインデント方式（Tab キーで挿入する文字列を合わせる）
+  const indentStyle = useMemo(() => detectIndentStyle(text), [text]);
+  const indentUnit = getIndentString(indentStyle);
+
+  // インデントの問題（階層の飛び・親のないインデントなど）
+  const diagnostics = useMemo(() => parseDocument(text).diagnostics, [text]);
+
   useEffect(() => {
     setText(initialText);
   }, [initialText]);
@@ -55,26 +103,43 @@ export function EditorView({
     return () => clearTimeout(timer);
   }, [text, onSave, initialText]);
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // 保存前の編集内容を知らせる（他のタブの変更で上書きされないように、反映前に保存するため）
+  useEffect(() => {
+    onDraftChange(text === initialText ? null : text);
+    return () => onDraftChange(null);
+  }, [text, initialText, onDraftChange]);
 
-    try {
-      const importedText = await importFile(file);
-      setText(importedText);
-      onSave(importedText);
-    } catch (error) {
-      alert(error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました');
-    }
+  // 取り込んだツリーで現在のファイルを更新（文書のインデント方式で書き出す）
+  const handleImportIntoFile = (nodes: TreeNode[]) => {
+    const importedText = serializeTreeToText(nodes, indentStyle);
+    setText(importedText);
+    onImportNodes(nodes, importedText);
+  };
 
-    // Reset input so the same file can be selected again
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  // カーソル行のノードを取得
+  const getNodeAtCursor = () => {
+    const cursor = textareaRef.current?.selectionStart ?? 0;
+    const line = text.substring(0, cursor).split('\n').length;
+    return findNodeAtLine(parseTextToTree(text, getCurrentNodes()), line);
+  };
+
+  // 指定行を選択してスクロール
+  const handleJumpToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = text.split('\n');
+    const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    const end = start + (lines[line - 1]?.length ?? 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    // 行の位置までスクロール
+    const lineHeight = textarea.scrollHeight / Math.max(1, lines.length);
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
   };
 
-  const handleOpenFile = () => {
-    fileInputRef.current?.click();
+  // 問題のある行のインデントを補正
+  const handleNormalizeDepths = () => {
+    setText(normalizeIndentation(text));
   };
 
   const handleSwitchToBrowser = () => {
@@ -82,6 +147,50 @@ export function EditorView({
     onSwitchToBrowser();
   };
 
+  // リスト・見出しを含むHTML、ツリー図の貼り付けは階層を保ったまま、カーソル行の深さに挿入
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    const plain = e.clipboardData.getData('text/plain');
+    let converted = '';
+    if (html && hasHtmlOutline(html)) {
+      converted = convertHtmlToTabIndentedText(html);
+    } else if (isTreeDiagram(plain)) {
+      converted = convertTreeDiagramToTabIndentedText(plain);
+    }
+    converted = converted.replace(/\n+$/, '');
+    if (!converted) return;
+    e.preventDefault();
+
+    const target = e.currentTarget;
+    const start = target.selectionStart;
+    const end = target.selectionEnd;
+    const value = target.value;
+
+    // カーソル行のインデントを基準にし、階層のタブは文書のインデント方式に合わせる
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const lineEndIndex = value.indexOf('\n', end);
+    const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+    const baseIndent = value.substring(lineStart).match(/^[\t ]*/)?.[0] ?? '';
+    const block = converted
+      .split('\n')
+      .map((line) => baseIndent + line.replace(/^\t+/, (tabs) => indentUnit.repeat(tabs.length)))
+      .join('\n');
+
+    // カーソルより前に文字があれば改行してから挿入し、後ろに残る文字は次の行へ送る
+    const before = value.substring(lineStart, start);
+    const after = value.substring(end, lineEnd);
+    const insertStart = before.trim() === '' ? lineStart : start;
+    const insertion = (before.trim() === '' ? '' : '\n') + block;
+    const rest = after.trim() === '' ? '' : '\n' + baseIndent;
+
+    const newValue = value.substring(0, insertStart) + insertion + rest + value.substring(end);
+    setText(newValue);
+    // カーソル位置を調整（挿入したブロックの末尾）
+    setTimeout(() => {
+      target.selectionStart = target.selectionEnd = insertStart + insertion.length;
+    }, 0);
+  };
+
   // タブキーのデフォルト動作を防ぐ & 改行時の自動インデント
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     const target = e.currentTarget;
@@ -93,23 +202,31 @@ export function EditorView({
       e.preventDefault();
 
       if (e.shiftKey) {
-        // Shift+Tab: インデント削除
+        // Shift+Tab: インデント削除（タブ1つ、またはスペース1階層分）
         const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+        let removeLength = 0;
         if (value[lineStart] === '\t') {
-          const newValue = value.substring(0, lineStart) + value.substring(lineStart + 1);
+          removeLength = 1;
+        } else {
+          while (removeLength < indentStyle.width && value[lineStart + removeLength] === ' ') {
+            removeLength++;
+          }
+        }
+        if (removeLength > 0) {
+          const newValue = value.substring(0, lineStart) + value.substring(lineStart + removeLength);
           setText(newValue);
           // カーソル位置を調整
           setTimeout(() => {
-            target.selectionStart = target.selectionEnd = start - 1;
+            target.selectionStart = target.selectionEnd = Math.max(lineStart, start - removeLength);
           }, 0);
         }
       } else {
         // Tab: インデント追加
-        const newValue = value.substring(0, start) + '\t' + value.substring(end);
+        const newValue = value.substring(0, start) + indentUnit + value.substring(end);
         setText(newValue);
         // カーソル位置を調整
         setTimeout(() => {
-          target.selectionStart = target.selectionEnd = start + 1;
+          target.selectionStart = target.selectionEnd = start + indentUnit.length;
         }, 0);
       }
     } else if (e.key === 'Enter') {
@@ -118,11 +235,11 @@ export function EditorView({
       // 現在行の先頭を見つける
       const lineStart = value.lastIndexOf('\n', start - 1) + 1;
 
-      // 現在行のインデント（先頭のタブ文字）を取得
+      // 現在行のインデント（先頭のタブ・スペース）を取得
       let indent = '';
       for (let i = lineStart; i < value.length; i++) {
-        if (value[i] === '\t') {
-          indent += '\t';
+        if (value[i] === '\t' || value[i] === ' ') {
+          indent += value[i];
         } else {
           break;
         }
@@ -143,8 +260,6 @@ export function EditorView({
     <div className="flex flex-col h-screen w-full">
       {/* ツールバー */}
       <div className="h-10 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 flex items-center justify-end px-2 gap-2">
-        <input ref={fileInputRef} type="file" accept=".rtf,.md,.markdown,.txt" onChange={handleFileSelect} className="hidden" />
-
         {/* ファイル選択 */}
         <FileSelector
           files={files}
@@ -153,6 +268,21 @@ export function EditorView({
           onNewFile={onNewFile}
           onDeleteFile={onDeleteFile}
         />
+        <TrashMenu
+          trash={trash}
+          retentionDays={trashRetentionDays}
+          onRestore={onRestoreFromTrash}
+          onPurge={onPurgeTrash}
+          onRetentionChange={onTrashRetentionChange}
+        />
+        <WorkspaceMenu getData={getWorkspaceData} onRestore={onRestoreWorkspace} />
+        <HistoryMenu
+          fileName={files.find((f) => f.id === currentFileId)?.name ?? ''}
+          getCurrentText={() => text}
+          loadHistory={loadHistory}
+          onRestore={onRestoreSnapshot}
+        />
+        <SaveStatus files={files} trash={trash} saveState={saveState} onRetry={onRetrySave} />
 
         {/* フォントサイズ調整 */}
         <div className="flex items-center gap-1 bg-white dark:bg-gray-900 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
@@ -173,9 +303,18 @@ export function EditorView({
           </button>
         </div>
 
-        <button onClick={handleOpenFile} className="px-3 py-1 text-sm bg-gray-500 hover:bg-gray-600 text-white rounded">
-          ファイルを開く
-        </button>
+        <ExportMenu
+          fileName={files.find((f) => f.id === currentFileId)?.name ?? 'tree'}
+          getNodes={() => parseTextToTree(text, getCurrentNodes())}
+          getSelectedNode={getNodeAtCursor}
+        />
+
+        <ImportMenu
+          getNodes={() => parseTextToTree(text, getCurrentNodes())}
+          getSelectedNode={getNodeAtCursor}
+          onImportIntoFile={handleImportIntoFile}
+          onImportAsNewFiles={onImportAsNewFiles}
+        />
         <button onClick={handleSwitchToBrowser} className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded">
           ブラウザに切替
         </button>
@@ -187,6 +326,7 @@ export function EditorView({
         value={text}
         onChange={(e) => setText(e.target.value)}
         onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
         className="flex-1 w-full p-2 font-mono resize-none
                  focus:outline-none dark:bg-gray-900"
         style={{
@@ -197,11 +337,45 @@ export function EditorView({
         spellCheck={false}
       />
 
+      {/* インデントの診断結果 */}
+      {diagnostics.length > 0 && (
+        <div className="max-h-32 overflow-y-auto px-3 py-2 text-xs border-t border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-bold text-yellow-700 dark:text-yellow-400">
+              インデントの問題: {diagnostics.length}件
+            </span>
+            <button
+              onClick={handleNormalizeDepths}
+              className="px-2 py-0.5 bg-yellow-500 hover:bg-yellow-600 text-white rounded"
+              title="問題のある行を正しい階層に揃える"
+            >
+              階層を正規化
+            </button>
+          </div>
+          <ul>
+            {diagnostics.map((diagnostic) => (
+              <li key={`${diagnostic.line}-${diagnostic.type}`}>
+                <button
+                  onClick={() => handleJumpToLine(diagnostic.line)}
+                  className="text-left hover:underline text-yellow-800 dark:text-yellow-300"
+                >
+                  {diagnostic.line}行目: {diagnostic.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* フッター（ヘルプテキスト） */}
       <div className="p-3 text-xs text-gray-400 dark:text-gray-300 border-t border-gray-200 dark:border-gray-700">
         <div className="flex gap-4">
           <span>Tab: インデント追加</span>
           <span>Shift+Tab: インデント削除</span>
+          <span>
+            インデント: {indentStyle.unit === 'tab' ? 'タブ' : `スペース${indentStyle.width}`}
+            {indentStyle.mixed && '（混在）'}
+          </span>
         </div>
       </div>
     </div>
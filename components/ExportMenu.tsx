@@ -0,0 +1,234 @@
+'use client';
+
+import { useState } from 'react';
+import { TreeNode } from '@/types';
+import {
+  EXPORT_FORMATS,
+  DEFAULT_EXPORT_OPTIONS,
+  ExportFormat,
+  ExportOptions,
+  MarkdownStyle,
+  exportTree,
+  downloadFile,
+} from '@/utils/fileExporter';
+
+interface ExportMenuProps {
+  fileName: string;
+  getNodes: () => TreeNode[];
+  getSelectedNode?: () => TreeNode | null;
+}
+
+// エクスポート対象の範囲
+type ExportScope = 'file' | 'subtree';
+
+// ダイアログを開いた時点のエクスポート対象
+interface ExportTarget {
+  format: ExportFormat;
+  nodes: TreeNode[];
+  selectedNode: TreeNode | null;
+}
+
+export function ExportMenu({ fileName, getNodes, getSelectedNode }: ExportMenuProps) {
+  const [target, setTarget] = useState<ExportTarget | null>(null);
+  const [scope, setScope] = useState<ExportScope>('file');
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  const handleOpen = (format: ExportFormat) => {
+    const selectedNode = getSelectedNode?.() ?? null;
+    setTarget({ format, nodes: getNodes(), selectedNode });
+    if (!selectedNode) setScope('file');
+  };
+
+  const info = target ? EXPORT_FORMATS.find((f) => f.format === target.format) : undefined;
+
+  // 選択中のノード以下をエクスポートする場合は、そのノードを唯一のルートにする
+  const exportNodes = target
+    ? scope === 'subtree' && target.selectedNode
+      ? [target.selectedNode]
+      : target.nodes
+    : [];
+  const title = scope === 'subtree' && target?.selectedNode
+    ? target.selectedNode.text.split('\n')[0]
+    : fileName;
+
+  let content = '';
+  let error: string | null = null;
+  if (target) {
+    try {
+      content = exportTree(exportNodes, target.format, title, options);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'エクスポートに失敗しました';
+    }
+  }
+
+  const handleDownload = () => {
+    if (!info || error) return;
+    downloadFile(content, `${title}.${info.extension}`, info.mimeType);
+    setTarget(null);
+  };
+
+  const handleCopy = async () => {
+    if (error) return;
+    try {
+      await navigator.clipboard.writeText(content);
+    } catch {
+      alert('クリップボードへのコピーに失敗しました');
+    }
+  };
+
+  return (
+    <>
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) handleOpen(e.target.value as ExportFormat);
+        }}
+        className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="エクスポート"
+      >
+        <option value="">エクスポート</option>
+        {EXPORT_FORMATS.map((f) => (
+          <option key={f.format} value={f.format}>
+            {f.label}
+          </option>
+        ))}
+      </select>
+
+      {target && info && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+          onClick={() => setTarget(null)}
+        >
+          <div
+            className="flex flex-col w-[40rem] max-w-[90vw] max-h-[85vh] p-4 gap-3 bg-white dark:bg-gray-800 rounded shadow-lg text-sm"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="font-bold">{info.label} エクスポート</div>
+
+            {/* 範囲 */}
+            <div className="flex items-center gap-4">
+              <span className="text-gray-500 dark:text-gray-400">範囲</span>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={scope === 'file'} onChange={() => setScope('file')} />
+                ファイル全体
+              </label>
+              <label className={`flex items-center gap-1 ${target.selectedNode ? '' : 'opacity-50'}`}>
+                <input
+                  type="radio"
+                  checked={scope === 'subtree'}
+                  disabled={!target.selectedNode}
+                  onChange={() => setScope('subtree')}
+                />
+                選択中のノード以下
+                {target.selectedNode && (
+                  <span className="font-mono text-gray-500 dark:text-gray-400 truncate max-w-[12rem]">
+                    （{target.selectedNode.text.split('\n')[0]}）
+                  </span>
+                )}
+              </label>
+            </div>
+
+            {/* Markdown のオプション */}
+            {target.format === 'markdown' && (
+              <div className="flex items-center gap-4 flex-wrap">
+                <span className="text-gray-500 dark:text-gray-400">形式</span>
+                {([
+                  ['headings', '見出し＋箇条書き'],
+                  ['bullets', '箇条書きのみ'],
+                  ['numbered', '番号付きリスト'],
+                ] as [MarkdownStyle, string][]).map(([style, label]) => (
+                  <label key={style} className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      checked={options.markdownStyle === style}
+                      onChange={() => setOptions({ ...options, markdownStyle: style })}
+                    />
+                    {label}
+                  </label>
+                ))}
+                {options.markdownStyle === 'headings' && (
+                  <label className="flex items-center gap-1">
+                    見出しにする階層数
+                    <input
+                      type="number"
+                      min={1}
+                      max={6}
+                      value={options.headingLevels}
+                      onChange={(e) => setOptions({ ...options, headingLevels: Number(e.target.value) || 1 })}
+                      className="w-12 px-1 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+
+            {/* 図（Mermaid・DOT）のオプション */}
+            {(target.format === 'mermaid' || target.format === 'dot') && (
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-1">
+                  <span className="text-gray-500 dark:text-gray-400">含める階層数</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={options.maxDepth}
+                    onChange={(e) => setOptions({ ...options, maxDepth: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-12 px-1 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded"
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">（0 で全階層）</span>
+                </label>
+              </div>
+            )}
+
+            {/* Anki のオプション */}
+            {(target.format === 'anki-tsv' || target.format === 'anki-csv') && (
+              <div className="flex items-center gap-4 flex-wrap">
+                <label className="flex items-center gap-1">
+                  <span className="text-gray-500 dark:text-gray-400">カードにする階層</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={options.cardDepth}
+                    onChange={(e) => setOptions({ ...options, cardDepth: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-12 px-1 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded"
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">（1 がルート）</span>
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={options.skipLeafCards}
+                    onChange={(e) => setOptions({ ...options, skipLeafCards: e.target.checked })}
+                  />
+                  子のないノードは除外
+                </label>
+              </div>
+            )}
+
+            {/* プレビュー */}
+            {error ? (
+              <div className="text-red-600 dark:text-red-400">{error}</div>
+            ) : (
+              <textarea
+                readOnly
+                value={content}
+                className="flex-1 min-h-[12rem] p-2 font-mono text-xs bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded resize-none"
+              />
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setTarget(null)} className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded">
+                閉じる
+              </button>
+              <button onClick={handleCopy} disabled={!!error} className="px-3 py-1 bg-gray-500 hover:bg-gray-600 text-white rounded disabled:opacity-50">
+                コピー
+              </button>
+              <button onClick={handleDownload} disabled={!!error} className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded disabled:opacity-50">
+                ダウンロード
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
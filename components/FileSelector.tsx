@@ -43,12 +43,12 @@ export function FileSelector({
         <PlusIcon style={{ width: '14px', height: '14px' }} />
       </button>
 
-      {/* ファイル削除ボタン（ファイルが1つだけの場合は無効化） */}
+      {/* ファイル削除ボタン（ゴミ箱に移動。ファイルが1つだけの場合は無効化） */}
       {files.length > 1 && (
         <button
           onClick={() => onDeleteFile(currentFileId)}
           className="w-6 h-6 flex items-center justify-center bg-red-500 hover:bg-red-600 text-white rounded"
-          title="ファイルを削除"
+          title="ゴミ箱に移動"
         >
           <TrashIcon style={{ width: '14px', height: '14px' }} />
         </button>
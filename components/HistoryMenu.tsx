@@ -0,0 +1,144 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { FileSnapshot } from '@/types';
+import { parseTextToTree } from '@/utils/treeParser';
+import { diffTrees, TreeDiffType } from '@/utils/treeDiff';
+import { SNAPSHOT_REASON_LABELS } from '@/utils/history';
+
+interface HistoryMenuProps {
+  fileName: string;
+  getCurrentText: () => string;
+  loadHistory: () => Promise<FileSnapshot[]>;
+  onRestore: (snapshot: FileSnapshot) => void;
+}
+
+// 差分の種類ごとの表示
+const DIFF_STYLES: Record<TreeDiffType, { mark: string; className: string }> = {
+  same: { mark: ' ', className: 'text-gray-500 dark:text-gray-400' },
+  added: { mark: '+', className: 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  removed: { mark: '-', className: 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300 line-through' },
+  changed: { mark: '~', className: 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300' },
+};
+
+export function HistoryMenu({ fileName, getCurrentText, loadHistory, onRestore }: HistoryMenuProps) {
+  // 開いている間の履歴と現在の内容（null の場合は閉じている）
+  const [history, setHistory] = useState<{ snapshots: FileSnapshot[]; currentText: string } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const handleOpen = async () => {
+    try {
+      const snapshots = await loadHistory();
+      setHistory({ snapshots, currentText: getCurrentText() });
+      setSelectedId(snapshots[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      alert('履歴の読み込みに失敗しました');
+    }
+  };
+
+  const selected = history?.snapshots.find((s) => s.id === selectedId) ?? null;
+
+  // 選択した版から現在の内容への差分
+  const diff = useMemo(() => {
+    if (!history || !selected) return null;
+    return diffTrees(parseTextToTree(selected.rawText), parseTextToTree(history.currentText));
+  }, [history, selected]);
+
+  const handleRestore = () => {
+    if (!selected) return;
+    onRestore(selected);
+    setHistory(null);
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleOpen}
+        className="px-2 py-1 text-sm bg-white dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded"
+        title="このファイルの履歴"
+      >
+        履歴
+      </button>
+
+      {history && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={() => setHistory(null)}>
+          <div
+            className="flex flex-col w-[56rem] max-w-[95vw] h-[80vh] p-4 gap-3 bg-white dark:bg-gray-800 rounded shadow-lg text-sm"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="font-bold">「{fileName}」の履歴</div>
+
+            <div className="flex-1 min-h-0 flex gap-3">
+              {/* 版の一覧 */}
+              <ul className="w-56 shrink-0 overflow-y-auto border border-gray-300 dark:border-gray-600 rounded">
+                {history.snapshots.length === 0 && (
+                  <li className="p-2 text-gray-500 dark:text-gray-400">履歴はまだありません</li>
+                )}
+                {history.snapshots.map((snapshot) => (
+                  <li key={snapshot.id}>
+                    <button
+                      onClick={() => setSelectedId(snapshot.id)}
+                      className={`w-full text-left px-2 py-1 ${
+                        snapshot.id === selectedId
+                          ? 'bg-blue-500 text-white'
+                          : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      <div>{new Date(snapshot.createdAt).toLocaleString()}</div>
+                      <div className={`text-xs ${snapshot.id === selectedId ? '' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {SNAPSHOT_REASON_LABELS[snapshot.reason]}・{snapshot.rawText.split('\n').length}行
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {/* 選択した版から現在の内容への変更 */}
+              <div className="flex-1 min-w-0 flex flex-col gap-2">
+                {diff && (
+                  <div className="text-gray-500 dark:text-gray-400">
+                    この版から現在までの変更: 追加 {diff.added}・削除 {diff.removed}・変更 {diff.changed}
+                  </div>
+                )}
+                <div className="flex-1 overflow-auto p-2 font-mono text-xs bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded">
+                  {diff && diff.lines.length === 0 && (
+                    <div className="text-gray-500 dark:text-gray-400">現在の内容と同じです</div>
+                  )}
+                  {diff?.lines.map((line, index) => (
+                    <div
+                      key={index}
+                      className={`whitespace-pre ${DIFF_STYLES[line.type].className}`}
+                      style={{ paddingLeft: `${line.depth * 1.5}em` }}
+                    >
+                      {DIFF_STYLES[line.type].mark} {line.text}
+                      {line.previousText !== undefined && (
+                        <span className="text-gray-500 dark:text-gray-400">（変更前: {line.previousText}）</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setHistory(null)}
+                className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded"
+              >
+                閉じる
+              </button>
+              <button
+                onClick={handleRestore}
+                disabled={!selected}
+                className="px-3 py-1 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded"
+              >
+                この版に戻す
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { TreeNode } from '@/types';
+import { importFile, IMPORT_FILE_ACCEPT } from '@/utils/fileImporter';
+import { convertTreeToBoxDrawing } from '@/utils/fileExporter';
+import { parseTextToTree, insertSubtrees, generateNodeId, findNodeById, findNodeAtLine } from '@/utils/treeParser';
+
+interface ImportMenuProps {
+  getNodes: () => TreeNode[];
+  getSelectedNode?: () => TreeNode | null;
+  // 取り込み後の現在のファイルのツリー（parentId は子として追加した親ノード）
+  onImportIntoFile: (nodes: TreeNode[], parentId: string | null) => void;
+  // 1つのツリーにつき1つの新しいファイルを作成
+  onImportAsNewFiles: (trees: TreeNode[][]) => void;
+}
+
+// 取り込み先
+type ImportDestination = 'new-file' | 'append' | 'children' | 'replace';
+
+// 複数ファイルの取り込み方
+type BatchMode = 'separate' | 'merge';
+
+// 読み込んだファイルごとの結果
+interface ImportEntry {
+  fileName: string;
+  nodes: TreeNode[] | null;
+  error: string | null;
+}
+
+// 読み込んだファイルと、ダイアログを開いた時点の現在のツリー・選択中のノード
+interface ImportTarget {
+  entries: ImportEntry[];
+  rootName: string; // まとめる場合のルートノードのテキスト
+  nodes: TreeNode[]; // 取り込み先のツリー（selectedNode はこのツリーのノード）
+  selectedNode: TreeNode | null;
+}
+
+// 取り込める拡張子（フォルダ内のファイルの絞り込みに使う）
+const IMPORT_EXTENSIONS = IMPORT_FILE_ACCEPT.split(',');
+
+/**
+ * ドロップされたフォルダ内のファイルを再帰的に取得
+ * @param entry フォルダまたはファイルのエントリ
+ * @returns 取り込める拡張子のファイル（フォルダからの相対パス付き）
+ */
+async function readEntryFiles(entry: FileSystemEntry): Promise<{ file: File; path: string }[]> {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, path }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries は一度に全件を返さないため、空になるまで繰り返す
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+
+  const results: { file: File; path: string }[] = [];
+  for (const child of children) {
+    if (child.isFile && !IMPORT_EXTENSIONS.some((ext) => child.name.toLowerCase().endsWith(ext))) continue;
+    results.push(...(await readEntryFiles(child)));
+  }
+  return results;
+}
+
+export function ImportMenu({ getNodes, getSelectedNode, onImportIntoFile, onImportAsNewFiles }: ImportMenuProps) {
+  const [target, setTarget] = useState<ImportTarget | null>(null);
+  const [destination, setDestination] = useState<ImportDestination>('new-file');
+  const [batchMode, setBatchMode] = useState<BatchMode>('separate');
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // ファイルを読み込んで取り込みダイアログを開く
+  const openFiles = async (files: { file: File; path: string }[], rootName: string) => {
+    if (files.length === 0) return;
+
+    const entries: ImportEntry[] = [];
+    for (const { file, path } of files) {
+      try {
+        const result = await importFile(file);
+        // ID・展開状態を持つ形式はそのツリーを、それ以外はテキストをパースして使う
+        entries.push({ fileName: path, nodes: result.nodes ?? parseTextToTree(result.text), error: null });
+      } catch (error) {
+        entries.push({
+          fileName: path,
+          nodes: null,
+          error: error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました',
+        });
+      }
+    }
+
+    // 選択中のノードは取り込み先のツリーから探す（エディタでは再パースでIDが変わるため、行番号でも探す）
+    const nodes = getNodes();
+    const selected = getSelectedNode?.() ?? null;
+    const selectedNode = selected
+      ? findNodeById(nodes, selected.id) ??
+        (selected.source ? findNodeAtLine(nodes, selected.source.line) : null)
+      : null;
+    setTarget({ entries, rootName, nodes, selectedNode });
+    if (!selectedNode && destination === 'children') setDestination('new-file');
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    await openFiles(
+      files.map((file) => ({ file, path: file.name })),
+      `取り込んだファイル（${files.length}件）`
+    );
+
+    // Reset input so the same file can be selected again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // ファイル・フォルダのドロップ（どちらのモードでも画面全体で受け付ける）
+  // ノードのドラッグ&ドロップより先に処理するため、キャプチャフェーズで受け取る
+  const openFilesRef = useRef(openFiles);
+  openFilesRef.current = openFiles;
+  useEffect(() => {
+    let depth = 0;
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth++;
+      setIsDraggingFiles(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDraggingFiles(false);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+    };
+    const handleDrop = async (e: DragEvent) => {
+      if (!hasFiles(e) || !e.dataTransfer) return;
+      e.preventDefault();
+      e.stopPropagation();
+      depth = 0;
+      setIsDraggingFiles(false);
+
+      // エントリは drop イベントの中でしか取得できない
+      const entries = Array.from(e.dataTransfer.items)
+        .map((item) => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+      const files: { file: File; path: string }[] = [];
+      try {
+        for (const entry of entries) {
+          files.push(...(await readEntryFiles(entry)));
+        }
+      } catch {
+        alert('ドロップされたファイルの読み込みに失敗しました');
+        return;
+      }
+
+      // フォルダ1つをドロップした場合はフォルダ名をまとめる先のルートにする
+      const rootName = entries.length === 1 && entries[0].isDirectory
+        ? entries[0].name
+        : `取り込んだファイル（${files.length}件）`;
+      if (entries.length > 0 && files.length === 0) {
+        alert('取り込めるファイルがありません');
+        return;
+      }
+      await openFilesRef.current(files, rootName);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter, true);
+    window.addEventListener('dragleave', handleDragLeave, true);
+    window.addEventListener('dragover', handleDragOver, true);
+    window.addEventListener('drop', handleDrop, true);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter, true);
+      window.removeEventListener('dragleave', handleDragLeave, true);
+      window.removeEventListener('dragover', handleDragOver, true);
+      window.removeEventListener('drop', handleDrop, true);
+    };
+  }, []);
+
+  const succeeded = target ? target.entries.filter((entry) => entry.nodes !== null) : [];
+  const failed = target ? target.entries.filter((entry) => entry.error !== null) : [];
+  const isBatch = succeeded.length > 1;
+  const isSeparate = isBatch && batchMode === 'separate';
+
+  // 各ファイルをファイル名（拡張子なし）のノードの下に置いたツリー
+  const fileTrees = succeeded.map((entry): TreeNode => ({
+    id: generateNodeId(),
+    text: entry.fileName.replace(/\.[^./]+$/, ''),
+    depth: 0,
+    children: entry.nodes ?? [],
+    isExpanded: true,
+  }));
+
+  // 取り込むツリー（複数ファイルをまとめる場合は1つのルートの下に置く）
+  const importedNodes = !isBatch
+    ? succeeded[0]?.nodes ?? []
+    : insertSubtrees([], [{
+      id: generateNodeId(),
+      text: target?.rootName ?? '',
+      depth: 0,
+      children: fileTrees,
+      isExpanded: true,
+    }], null);
+
+  const handleImport = () => {
+    if (!target || succeeded.length === 0) return;
+
+    if (isSeparate) {
+      onImportAsNewFiles(succeeded.map((entry) => entry.nodes ?? []));
+      setTarget(null);
+      return;
+    }
+
+    switch (destination) {
+      case 'new-file':
+        onImportAsNewFiles([importedNodes]);
+        break;
+      case 'append':
+        onImportIntoFile(insertSubtrees(target.nodes, importedNodes, null), null);
+        break;
+      case 'children':
+        if (!target.selectedNode || !findNodeById(target.nodes, target.selectedNode.id)) {
+          alert('取り込み先のノードが見つかりません');
+          return;
+        }
+        onImportIntoFile(
+          insertSubtrees(target.nodes, importedNodes, target.selectedNode.id),
+          target.selectedNode.id
+        );
+        break;
+      case 'replace':
+        onImportIntoFile(insertSubtrees([], importedNodes, null), null);
+        break;
+    }
+    setTarget(null);
+  };
+
+  const countNodes = (list: TreeNode[]): number =>
+    list.reduce((sum, node) => sum + 1 + countNodes(node.children), 0);
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={IMPORT_FILE_ACCEPT}
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="px-3 py-1 text-sm bg-gray-500 hover:bg-gray-600 text-white rounded"
+        title="ファイルを開く（ファイル・フォルダのドロップでも取り込めます）"
+      >
+        ファイルを開く
+      </button>
+
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-blue-500/20 border-4 border-dashed border-blue-500 pointer-events-none">
+          <div className="px-4 py-2 bg-white dark:bg-gray-800 rounded shadow-lg text-sm">
+            ドロップしてファイルを取り込む
+          </div>
+        </div>
+      )}
+
+      {target && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+          onClick={() => setTarget(null)}
+        >
+          <div
+            className="flex flex-col w-[40rem] max-w-[90vw] max-h-[85vh] p-4 gap-3 bg-white dark:bg-gray-800 rounded shadow-lg text-sm"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="font-bold">
+              {target.entries.length === 1 ? target.entries[0].fileName : `${target.entries.length} 件のファイル`} を取り込む
+              {succeeded.length > 0 && (
+                <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                  （{countNodes(succeeded.flatMap((entry) => entry.nodes ?? []))} ノード）
+                </span>
+              )}
+            </div>
+
+            {/* 読み込めなかったファイル */}
+            {failed.length > 0 && (
+              <div className="max-h-32 overflow-y-auto p-2 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded">
+                <div className="font-bold">読み込めなかったファイル（{failed.length}件）</div>
+                <ul>
+                  {failed.map((entry) => (
+                    <li key={entry.fileName} className="font-mono text-xs">
+                      {entry.fileName}: {entry.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* 複数ファイルの取り込み方 */}
+            {isBatch && (
+              <div className="flex items-center gap-4 flex-wrap">
+                <span className="text-gray-500 dark:text-gray-400">複数ファイル</span>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={batchMode === 'separate'} onChange={() => setBatchMode('separate')} />
+                  それぞれ新しいファイルにする
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={batchMode === 'merge'} onChange={() => setBatchMode('merge')} />
+                  1つのルート（{target.rootName}）の下にまとめる
+                </label>
+              </div>
+            )}
+
+            {/* 取り込み先 */}
+            {succeeded.length > 0 && !isSeparate && (
+              <div className="flex items-center gap-4 flex-wrap">
+                <span className="text-gray-500 dark:text-gray-400">取り込み先</span>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={destination === 'new-file'} onChange={() => setDestination('new-file')} />
+                  新しいファイル
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={destination === 'append'} onChange={() => setDestination('append')} />
+                  現在のファイルの末尾
+                </label>
+                <label className={`flex items-center gap-1 ${target.selectedNode ? '' : 'opacity-50'}`}>
+                  <input
+                    type="radio"
+                    checked={destination === 'children'}
+                    disabled={!target.selectedNode}
+                    onChange={() => setDestination('children')}
+                  />
+                  選択中のノードの子
+                  {target.selectedNode && (
+                    <span className="font-mono text-gray-500 dark:text-gray-400 truncate max-w-[12rem]">
+                      （{target.selectedNode.text.split('\n')[0]}）
+                    </span>
+                  )}
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={destination === 'replace'} onChange={() => setDestination('replace')} />
+                  現在のファイルを置き換え
+                </label>
+              </div>
+            )}
+
+            {/* プレビュー */}
+            {succeeded.length > 0 && (
+              <textarea
+                readOnly
+                value={convertTreeToBoxDrawing(isSeparate ? fileTrees : importedNodes)}
+                className="flex-1 min-h-[12rem] p-2 font-mono text-xs bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded resize-none"
+              />
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setTarget(null)} className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded">
+                {succeeded.length > 0 ? 'キャンセル' : '閉じる'}
+              </button>
+              {succeeded.length > 0 && (
+                <button onClick={handleImport} className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded">
+                  {isSeparate ? `${succeeded.length} 件のファイルを作成` : '取り込む'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
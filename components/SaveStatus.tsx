@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FileData, SaveState } from '@/types';
+import { getFileSize } from '@/utils/storage';
+
+interface SaveStatusProps {
+  files: FileData[];
+  trash: FileData[];
+  saveState: SaveState;
+  onRetry: () => void;
+}
+
+/**
+ * バイト数を表示用の文字列に変換
+ * @param bytes バイト数
+ * @returns 表示用の文字列
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function SaveStatus({ files, trash, saveState, onRetry }: SaveStatusProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // ブラウザが報告する使用量と上限（対応していない環境では null）
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || typeof navigator === 'undefined' || !navigator.storage?.estimate) return;
+    let cancelled = false;
+    navigator.storage
+      .estimate()
+      .then(({ usage, quota }) => {
+        if (!cancelled && usage !== undefined && quota !== undefined) setEstimate({ usage, quota });
+      })
+      .catch((error) => console.error('Failed to estimate storage:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, files]);
+
+  const unsaved = new Set(saveState.unsavedFileIds);
+  // 保存のたびに全ファイルを数え直さないように、一覧を開いている間だけ求める（ゴミ箱のファイルも含む）
+  const sizes = useMemo(
+    () =>
+      isOpen
+        ? [...files, ...trash].map((file) => ({ file, size: getFileSize(file) })).sort((a, b) => b.size - a.size)
+        : [],
+    [isOpen, files, trash]
+  );
+  const total = sizes.reduce((sum, { size }) => sum + size, 0);
+
+  const label =
+    saveState.status === 'failed' ? '保存に失敗' : saveState.status === 'saving' ? '保存中…' : '保存済み';
+  const labelClass =
+    saveState.status === 'failed'
+      ? 'text-white bg-red-500 hover:bg-red-600 border-red-500'
+      : 'text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-700 border-gray-300 dark:border-gray-600';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-2 py-1 text-sm border rounded ${labelClass}`}
+        title={saveState.error ?? '保存の状況とファイルごとの使用量'}
+      >
+        {label}
+        {saveState.unsavedFileIds.length > 0 && `（未保存 ${saveState.unsavedFileIds.length}件）`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-40 w-80 max-h-[70vh] overflow-y-auto p-3 flex flex-col gap-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded shadow-lg text-sm">
+          {/* 失敗した書き込みの再試行 */}
+          {saveState.error && (
+            <div className="flex flex-col gap-2 p-2 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded">
+              <div>{saveState.error}</div>
+              <div className="text-xs">未保存の内容は、このタブを閉じるまで保持されます</div>
+              <button
+                onClick={onRetry}
+                className="self-end px-3 py-1 bg-red-500 hover:bg-red-600 text-white rounded"
+              >
+                再試行
+              </button>
+            </div>
+          )}
+
+          {/* ファイルごとの使用量 */}
+          <div className="flex justify-between font-bold">
+            <span>ファイルごとの使用量（履歴を除く）</span>
+            <span>{formatBytes(total)}</span>
+          </div>
+          <ul className="flex flex-col gap-1">
+            {sizes.map(({ file, size }) => (
+              <li key={file.id} className="flex items-center gap-2">
+                <span className="flex-1 truncate font-mono">{file.name}</span>
+                {file.deletedAt && <span className="text-xs text-gray-500 dark:text-gray-400">ゴミ箱</span>}
+                {unsaved.has(file.id) && <span className="text-xs text-red-600 dark:text-red-400">未保存</span>}
+                <span className="text-gray-500 dark:text-gray-400">{formatBytes(size)}</span>
+              </li>
+            ))}
+          </ul>
+          {estimate && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              ブラウザの使用量: {formatBytes(estimate.usage)} / {formatBytes(estimate.quota)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
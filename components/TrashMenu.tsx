@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { FileData } from '@/types';
+import { getTrashDaysLeft } from '@/utils/trash';
+
+interface TrashMenuProps {
+  trash: FileData[];
+  retentionDays: number;
+  onRestore: (fileId: string) => void;
+  onPurge: (fileIds: string[]) => void;
+  onRetentionChange: (days: number) => void;
+}
+
+export function TrashMenu({ trash, retentionDays, onRestore, onPurge, onRetentionChange }: TrashMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // 新しく削除した順
+  const sortedTrash = [...trash].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+
+  const handlePurge = (fileIds: string[], message: string) => {
+    if (confirm(message)) {
+      onPurge(fileIds);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-2 py-1 text-sm bg-white dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded"
+        title="削除したファイル"
+      >
+        ゴミ箱{trash.length > 0 && `（${trash.length}）`}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={() => setIsOpen(false)}>
+          <div
+            className="flex flex-col w-[36rem] max-w-[90vw] max-h-[80vh] p-4 gap-3 bg-white dark:bg-gray-800 rounded shadow-lg text-sm"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="font-bold">ゴミ箱</div>
+
+            {/* 保持期間 */}
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500 dark:text-gray-400">自動で削除するまでの日数</span>
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={retentionDays}
+                onChange={(e) => {
+                  const days = Number(e.target.value);
+                  if (Number.isInteger(days) && days >= 1 && days <= 365) onRetentionChange(days);
+                }}
+                className="w-20 px-2 py-1 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded"
+              />
+              <span>日</span>
+            </label>
+
+            {/* 削除したファイル */}
+            <ul className="flex-1 min-h-[6rem] overflow-y-auto flex flex-col border border-gray-300 dark:border-gray-600 rounded">
+              {sortedTrash.length === 0 && <li className="p-2 text-gray-500 dark:text-gray-400">ゴミ箱は空です</li>}
+              {sortedTrash.map((file) => (
+                <li key={file.id} className="flex items-center gap-2 px-2 py-1 border-b last:border-b-0 border-gray-200 dark:border-gray-700">
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate font-mono">{file.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {file.deletedAt && new Date(file.deletedAt).toLocaleString()} に削除・あと
+                      {Math.max(0, getTrashDaysLeft(file, retentionDays))}日で完全に削除
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onRestore(file.id)}
+                    className="px-2 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded"
+                  >
+                    元に戻す
+                  </button>
+                  <button
+                    onClick={() => handlePurge([file.id], `「${file.name}」を完全に削除しますか？履歴も削除されます`)}
+                    className="px-2 py-1 bg-red-500 hover:bg-red-600 text-white rounded"
+                  >
+                    完全に削除
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() =>
+                  handlePurge(
+                    trash.map((f) => f.id),
+                    `ゴミ箱の ${trash.length} 件のファイルを完全に削除しますか？履歴も削除されます`
+                  )
+                }
+                disabled={trash.length === 0}
+                className="px-3 py-1 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white rounded"
+              >
+                ゴミ箱を空にする
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded"
+              >
+                閉じる
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,21 +1,29 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { ViewMode, TreeNode, FileData, StorageData } from '@/types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ViewMode,
+  TreeNode,
+  FileData,
+  StorageData,
+  StorageBackend,
+  Theme,
+  SaveState,
+  FileConflict,
+  ConflictResolution,
+  FileSnapshot,
+  SnapshotReason,
+} from '@/types';
 import { EditorView } from './EditorView';
 import { BrowserView } from './BrowserView';
+import { ConflictDialog } from './ConflictDialog';
 import { FontSizeProvider } from '@/contexts/FontSizeContext';
-import { parseTextToTree, serializeTreeToText } from '@/utils/treeParser';
-import {
-  saveToStorage,
-  loadFromStorage,
-  getDefaultText,
-  updateFileText,
-  createNewFile,
-  deleteFile,
-  setCurrentFile,
-  extractFileName,
-} from '@/utils/localStorage';
+import { parseTextToTree, serializeTreeToText, applyExpandedIds, detectIndentStyle } from '@/utils/treeParser';
+import { getDefaultText } from '@/utils/localStorage';
+import { createStorageBackend, createFileData, withFileText, describeStorageError } from '@/utils/storage';
+import { createStorageSync, StorageSync, StorageSyncMessage } from '@/utils/storageSync';
+import { createSnapshot, SNAPSHOT_INTERVAL_MINUTES } from '@/utils/history';
+import { DEFAULT_TRASH_RETENTION_DAYS, getExpiredTrash } from '@/utils/trash';
 
 export function TreeEditor() {
   const [viewMode, setViewMode] = useState<ViewMode>('editor');
@@ -23,127 +31,661 @@ export function TreeEditor() {
   const [currentFileId, setCurrentFileId] = useState<string>('');
   const [rawText, setRawText] = useState('');
   const [nodes, setNodes] = useState<TreeNode[]>([]);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+
+  // 保存先のストレージと、保存済みのファイル一覧（読み込み直さずに最新の状態を参照するため）
+  const storageRef = useRef<StorageBackend | null>(null);
+  const filesRef = useRef<FileData[]>([]);
+  const themeRef = useRef<Theme>('light');
+
+  // ゴミ箱のファイルと自動で削除するまでの日数
+  const [trash, setTrash] = useState<FileData[]>([]);
+  const trashRef = useRef<FileData[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const retentionDaysRef = useRef(DEFAULT_TRASH_RETENTION_DAYS);
+
+  // 完了していない書き込み（キーごとに最新の書き込みだけを残し、失敗したら再試行に使う）
+  const pendingWritesRef = useRef<Map<string, () => Promise<void>>>(new Map());
+  const saveErrorRef = useRef<string | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>({ status: 'saved', unsavedFileIds: [], error: null });
+
+  // 他のタブとの同期
+  const syncRef = useRef<StorageSync | null>(null);
+  // このタブで編集し、他のタブから届いた内容で置き換えていないファイル（競合の判定に使う）
+  const localEditIdsRef = useRef<Set<string>>(new Set());
+  const [conflicts, setConflicts] = useState<FileConflict[]>([]);
+  // 他のタブの変更で開いているファイルを読み込み直した回数（ブラウザモードを作り直すため）
+  const [syncRevision, setSyncRevision] = useState(0);
+  // エディタで自動保存を待っている編集内容（他のタブの変更を反映する前に保存する）
+  const editorDraftRef = useRef<string | null>(null);
+  // ファイルごとの最後のスナップショット（同じ内容を続けて保存しないため）
+  const lastSnapshotRef = useRef<Map<string, { rawText: string; time: number }>>(new Map());
+
+  // ファイルごとの直前のツリー（再パース時にノードIDと展開状態を引き継ぐため）
+  const nodeCacheRef = useRef<Map<string, { nodes: TreeNode[]; focusedNodeId: string | null }>>(new Map());
+  // ブラウザモードでの展開状態・フォーカス位置
+  const expandedIdsRef = useRef<Set<string> | null>(null);
+  const focusedNodeIdRef = useRef<string | null>(null);
+
+  // 元の文書のインデント方式（書き戻し時に維持する）
+  const indentStyle = useMemo(() => detectIndentStyle(rawText), [rawText]);
+
+  // ファイル一覧を更新
+  const updateFiles = useCallback((next: FileData[]) => {
+    filesRef.current = next;
+    setFiles(next);
+  }, []);
+
+  // ゴミ箱を更新
+  const updateTrash = useCallback((next: FileData[]) => {
+    trashRef.current = next;
+    setTrash(next);
+  }, []);
+
+  // 書き込みの状況を反映
+  const refreshSaveState = useCallback(() => {
+    const keys = [...pendingWritesRef.current.keys()];
+    const unsavedIds = new Set(
+      keys.includes('all') ? filesRef.current.map((f) => f.id) : keys.filter((k) => k.startsWith('file:')).map((k) => k.slice(5))
+    );
+    setSaveState({
+      status: saveErrorRef.current ? 'failed' : keys.length > 0 ? 'saving' : 'saved',
+      unsavedFileIds: filesRef.current.filter((f) => unsavedIds.has(f.id)).map((f) => f.id),
+      error: saveErrorRef.current,
+    });
+  }, []);
+
+  // 書き込みを実行（成功するまで pendingWritesRef に残す）
+  const executeWrite = useCallback((key: string, task: () => Promise<void>) => {
+    task().then(
+      () => {
+        if (pendingWritesRef.current.get(key) === task) {
+          pendingWritesRef.current.delete(key);
+        }
+        if (pendingWritesRef.current.size === 0) {
+          saveErrorRef.current = null;
+        }
+        refreshSaveState();
+      },
+      (error) => {
+        console.error('Failed to write to storage:', error);
+        saveErrorRef.current = describeStorageError(error);
+        refreshSaveState();
+      }
+    );
+  }, [refreshSaveState]);
+
+  // ストレージへの書き込みを登録して実行
+  // key: 'file:<ID>'（ファイルごと）・'settings'・'all'（全体の置き換え。それまでの書き込みは不要になる）
+  const runWrite = useCallback((key: string, write: (storage: StorageBackend) => Promise<void>) => {
+    // ストレージを読み込めなかった場合は、保存されたデータを上書きしないように書き込まない
+    const task = () =>
+      storageRef.current ? write(storageRef.current) : Promise.reject(new Error('保存先のデータを読み込めていません'));
+    if (key === 'all') {
+      pendingWritesRef.current.clear();
+    }
+    pendingWritesRef.current.set(key, task);
+    refreshSaveState();
+    executeWrite(key, task);
+  }, [refreshSaveState, executeWrite]);
+
+  // 失敗した書き込みを再試行
+  const handleRetrySave = useCallback(() => {
+    saveErrorRef.current = null;
+    pendingWritesRef.current.forEach((task, key) => executeWrite(key, task));
+    refreshSaveState();
+  }, [executeWrite, refreshSaveState]);
+
+  // 未保存の内容がある場合はページを閉じる前に確認
+  useEffect(() => {
+    if (saveState.status === 'saved') return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [saveState.status]);
 
   // 初期データの読み込み
   useEffect(() => {
-    const savedData = loadFromStorage();
-    if (savedData && savedData.files && savedData.files.length > 0) {
-      setFiles(savedData.files);
-      setCurrentFileId(savedData.currentFileId);
-
-      const currentFile = savedData.files.find((f) => f.id === savedData.currentFileId);
-      if (currentFile) {
-        setRawText(currentFile.rawText);
-        setNodes(parseTextToTree(currentFile.rawText));
-      }
-    } else {
-      // 初期ファイルを作成
-      const defaultText = getDefaultText();
-      const fileId = createNewFile(defaultText);
-      const newData = loadFromStorage();
-      if (newData) {
-        setFiles(newData.files);
-        setCurrentFileId(fileId);
-        setRawText(defaultText);
-        setNodes(parseTextToTree(defaultText));
+    let cancelled = false;
+
+    const load = async () => {
+      const { backend: storage, data: savedData } = await createStorageBackend(() =>
+        alert('他のタブで開いているエディタを閉じてください。閉じると読み込みを続けます')
+      );
+      if (cancelled) return;
+
+      storageRef.current = storage;
+      const savedFiles = savedData?.files ?? [];
+      const retentionDays = savedData?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+      themeRef.current = savedData?.theme ?? 'light';
+      retentionDaysRef.current = retentionDays;
+      setTrashRetentionDays(retentionDays);
+
+      // 保持期間を過ぎたゴミ箱のファイルを削除
+      const trashedFiles = savedFiles.filter((f) => f.deletedAt);
+      const expiredIds = new Set(getExpiredTrash(trashedFiles, retentionDays).map((f) => f.id));
+      expiredIds.forEach((id) => runWrite(`file:${id}`, (s) => s.deleteFile(id)));
+      updateTrash(trashedFiles.filter((f) => !expiredIds.has(f.id)));
+
+      let activeFiles = savedFiles.filter((f) => !f.deletedAt);
+      if (activeFiles.length === 0) {
+        // 初期ファイルを作成
+        const file = createFileData(getDefaultText());
+        activeFiles = [file];
+        runWrite(`file:${file.id}`, (s) => s.saveFile(file));
       }
+      updateFiles(activeFiles);
+      const currentFile = activeFiles.find((f) => f.id === savedData?.currentFileId) ?? activeFiles[0];
+      setCurrentFileId(currentFile.id);
+      setRawText(currentFile.rawText);
+      setNodes(parseTextToTree(currentFile.rawText));
+    };
+
+    load().catch((error) => {
+      console.error('Failed to load files:', error);
+      if (cancelled) return;
+      // 保存されたデータを上書きしないように、以降の書き込みは失敗として扱う
+      const message = `保存されたデータを読み込めませんでした: ${error instanceof Error ? error.message : String(error)}`;
+      saveErrorRef.current = message;
+      refreshSaveState();
+      alert(message);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [updateFiles, updateTrash, runWrite, refreshSaveState]);
+
+  // ファイルを保存し、保存できたら他のタブに通知
+  const writeFile = useCallback((file: FileData, basedOn: string | null) => {
+    runWrite(`file:${file.id}`, (storage) =>
+      storage.saveFile(file).then(() => syncRef.current?.notify({ type: 'file-saved', file, basedOn }))
+    );
+  }, [runWrite]);
+
+  // ファイルの現在の内容をバージョン履歴に保存（直前のスナップショットと同じ内容なら保存しない）
+  const takeSnapshot = useCallback((fileId: string, reason: SnapshotReason) => {
+    const file = filesRef.current.find((f) => f.id === fileId);
+    if (!file) return;
+    const last = lastSnapshotRef.current.get(fileId);
+    lastSnapshotRef.current.set(fileId, { rawText: file.rawText, time: Date.now() });
+    if (last?.rawText === file.rawText) return;
+
+    const snapshot = createSnapshot(file, reason);
+    runWrite(`snapshot:${snapshot.id}`, (storage) => storage.saveSnapshot(snapshot));
+  }, [runWrite]);
+
+  // ファイルのテキストを保存（内容が変わっていなければ書き込まない）
+  const saveFileText = useCallback((fileId: string, text: string) => {
+    const file = filesRef.current.find((f) => f.id === fileId);
+    if (!file || file.rawText === text) return;
+
+    // 一定時間ごとに、編集前の内容を履歴に残す
+    const last = lastSnapshotRef.current.get(fileId);
+    if (!last || Date.now() - last.time >= SNAPSHOT_INTERVAL_MINUTES * 60 * 1000) {
+      takeSnapshot(fileId, 'interval');
     }
+
+    const updated = withFileText(file, text);
+    updateFiles(filesRef.current.map((f) => (f.id === fileId ? updated : f)));
+    localEditIdsRef.current.add(fileId);
+    writeFile(updated, file.lastModified);
+  }, [updateFiles, writeFile, takeSnapshot]);
+
+  // エディタで自動保存を待っている編集内容を、開いているファイルに保存
+  const flushEditorDraft = useCallback(() => {
+    if (currentFileId && editorDraftRef.current !== null) {
+      saveFileText(currentFileId, editorDraftRef.current);
+    }
+  }, [currentFileId, saveFileText]);
+
+  // 新しいファイルを作成して保存
+  const addFile = useCallback((text: string) => {
+    const file = createFileData(text);
+    updateFiles([...filesRef.current, file]);
+    localEditIdsRef.current.add(file.id);
+    writeFile(file, null);
+    return file;
+  }, [updateFiles, writeFile]);
+
+  // 開いているファイルと設定を保存
+  const saveSettings = useCallback((fileId: string) => {
+    const settings = { currentFileId: fileId, theme: themeRef.current, trashRetentionDays: retentionDaysRef.current };
+    runWrite('settings', (storage) => storage.saveSettings(settings));
+  }, [runWrite]);
+
+  // 開いているファイルを記録
+  const saveCurrentFileId = useCallback((fileId: string) => {
+    setCurrentFileId(fileId);
+    saveSettings(fileId);
+  }, [saveSettings]);
+
+  // ワークスペース全体のデータを取得（バックアップ用。ゴミ箱のファイルと保持期間も含める）
+  const getWorkspaceData = useCallback((): StorageData => ({
+    files: [...filesRef.current, ...trashRef.current],
+    currentFileId,
+    theme: themeRef.current,
+    trashRetentionDays: retentionDaysRef.current,
+  }), [currentFileId]);
+
+  // ブラウザモードでの展開状態を反映した現在のツリーを取得
+  const getCurrentNodes = useCallback(() => {
+    return expandedIdsRef.current ? applyExpandedIds(nodes, expandedIdsRef.current) : nodes;
+  }, [nodes]);
+
+  // 現在のファイルのツリーとフォーカス位置をキャッシュ
+  const cacheCurrentFile = useCallback(() => {
+    if (!currentFileId) return;
+    nodeCacheRef.current.set(currentFileId, {
+      nodes: parseTextToTree(rawText, getCurrentNodes()),
+      focusedNodeId: focusedNodeIdRef.current,
+    });
+  }, [currentFileId, rawText, getCurrentNodes]);
+
+  // 別ファイルのツリーを読み込み（キャッシュがあればIDを引き継ぐ）
+  const loadFileNodes = useCallback((fileId: string, text: string) => {
+    const cached = nodeCacheRef.current.get(fileId);
+    expandedIdsRef.current = null;
+    focusedNodeIdRef.current = cached?.focusedNodeId ?? null;
+    setFocusedNodeId(focusedNodeIdRef.current);
+    setNodes(parseTextToTree(text, cached?.nodes));
   }, []);
 
   // エディタからブラウザへの切り替え
   const handleSwitchToBrowser = useCallback(() => {
-    const parsedNodes = parseTextToTree(rawText);
+    if (currentFileId) {
+      takeSnapshot(currentFileId, 'mode-switch');
+    }
+    const parsedNodes = parseTextToTree(rawText, getCurrentNodes());
+    expandedIdsRef.current = null;
+    setFocusedNodeId(focusedNodeIdRef.current);
     setNodes(parsedNodes);
     setViewMode('browser');
-  }, [rawText]);
+  }, [rawText, currentFileId, getCurrentNodes, takeSnapshot]);
+
+  // ブラウザモードの展開状態を記録
+  const handleExpandedIdsChange = useCallback((ids: Set<string>) => {
+    expandedIdsRef.current = ids;
+  }, []);
+
+  // ブラウザモードのフォーカス位置を記録
+  const handleFocusedNodeChange = useCallback((id: string | null) => {
+    focusedNodeIdRef.current = id;
+  }, []);
 
   // ブラウザからエディタへの切り替え
   const handleSwitchToEditor = useCallback(() => {
     // ブラウザモードで編集した内容をrawTextに反映
-    const updatedText = serializeTreeToText(nodes);
+    const updatedText = serializeTreeToText(nodes, indentStyle);
     setRawText(updatedText);
     if (currentFileId) {
-      updateFileText(currentFileId, updatedText);
-
-      // ファイル名が変わった可能性があるので、files配列を更新
-      const data = loadFromStorage();
-      if (data) {
-        setFiles(data.files);
-      }
+      saveFileText(currentFileId, updatedText);
+      takeSnapshot(currentFileId, 'mode-switch');
     }
     setViewMode('editor');
-  }, [nodes, currentFileId]);
+  }, [nodes, currentFileId, indentStyle, saveFileText, takeSnapshot]);
 
   // ファイル選択
   const handleFileSelect = useCallback((fileId: string) => {
     // 現在のファイルを保存
     if (currentFileId) {
-      updateFileText(currentFileId, rawText);
+      saveFileText(currentFileId, rawText);
+      cacheCurrentFile();
     }
 
     // 新しいファイルを読み込み
-    setCurrentFile(fileId);
-    const data = loadFromStorage();
-    if (data) {
-      const file = data.files.find((f) => f.id === fileId);
-      if (file) {
-        setCurrentFileId(fileId);
-        setRawText(file.rawText);
-        setNodes(parseTextToTree(file.rawText));
-        setFiles(data.files);
-      }
+    const file = filesRef.current.find((f) => f.id === fileId);
+    if (file) {
+      saveCurrentFileId(fileId);
+      setRawText(file.rawText);
+      loadFileNodes(fileId, file.rawText);
     }
-  }, [currentFileId, rawText]);
+  }, [currentFileId, rawText, saveFileText, saveCurrentFileId, cacheCurrentFile, loadFileNodes]);
 
   // 新規ファイル作成
   const handleNewFile = useCallback(() => {
     // 現在のファイルを保存
     if (currentFileId) {
-      updateFileText(currentFileId, rawText);
+      saveFileText(currentFileId, rawText);
+      cacheCurrentFile();
     }
 
-    const defaultText = getDefaultText();
-    const fileId = createNewFile(defaultText);
-    const data = loadFromStorage();
-    if (data) {
-      setFiles(data.files);
-      setCurrentFileId(fileId);
-      setRawText(defaultText);
-      setNodes(parseTextToTree(defaultText));
+    const file = addFile(getDefaultText());
+    saveCurrentFileId(file.id);
+    setRawText(file.rawText);
+    loadFileNodes(file.id, file.rawText);
+  }, [currentFileId, rawText, saveFileText, addFile, saveCurrentFileId, cacheCurrentFile, loadFileNodes]);
+
+  // ファイル一覧から外す（開いているファイルの場合は先頭のファイルを開く）
+  const removeActiveFile = useCallback((fileId: string) => {
+    const remaining = filesRef.current.filter((f) => f.id !== fileId);
+    updateFiles(remaining);
+    nodeCacheRef.current.delete(fileId);
+    localEditIdsRef.current.delete(fileId);
+    setConflicts((prev) => prev.filter((c) => c.local.id !== fileId));
+
+    if (fileId === currentFileId && remaining.length > 0) {
+      saveCurrentFileId(remaining[0].id);
+      setRawText(remaining[0].rawText);
+      loadFileNodes(remaining[0].id, remaining[0].rawText);
     }
-  }, [currentFileId, rawText]);
+  }, [currentFileId, updateFiles, saveCurrentFileId, loadFileNodes]);
 
-  // ファイル削除
+  // ファイル削除（ゴミ箱に移動）
   const handleDeleteFile = useCallback((fileId: string) => {
-    if (files.length <= 1) return;
-
-    deleteFile(fileId);
-    const data = loadFromStorage();
-    if (data) {
-      setFiles(data.files);
-      const newCurrentFile = data.files.find((f) => f.id === data.currentFileId);
-      if (newCurrentFile) {
-        setCurrentFileId(newCurrentFile.id);
-        setRawText(newCurrentFile.rawText);
-        setNodes(parseTextToTree(newCurrentFile.rawText));
+    // 保存前の編集内容もゴミ箱のファイルに残す
+    if (fileId === currentFileId) {
+      flushEditorDraft();
+    }
+    const file = filesRef.current.find((f) => f.id === fileId);
+    if (!file || filesRef.current.length <= 1) return;
+
+    const trashed: FileData = { ...file, deletedAt: new Date().toISOString() };
+    removeActiveFile(fileId);
+    updateTrash([...trashRef.current, trashed]);
+    writeFile(trashed, file.lastModified);
+  }, [currentFileId, flushEditorDraft, removeActiveFile, updateTrash, writeFile]);
+
+  // ゴミ箱のファイルを元に戻す
+  const handleRestoreFromTrash = useCallback((fileId: string) => {
+    const file = trashRef.current.find((f) => f.id === fileId);
+    if (!file) return;
+
+    const restored: FileData = { ...file };
+    delete restored.deletedAt;
+    updateTrash(trashRef.current.filter((f) => f.id !== fileId));
+    updateFiles([...filesRef.current, restored]);
+    writeFile(restored, file.lastModified);
+  }, [updateTrash, updateFiles, writeFile]);
+
+  // ゴミ箱のファイルを完全に削除（履歴も削除）
+  const purgeFromTrash = useCallback((fileIds: string[]) => {
+    const ids = new Set(fileIds);
+    updateTrash(trashRef.current.filter((f) => !ids.has(f.id)));
+    ids.forEach((fileId) => {
+      lastSnapshotRef.current.delete(fileId);
+      runWrite(`file:${fileId}`, (storage) =>
+        storage.deleteFile(fileId).then(() => syncRef.current?.notify({ type: 'file-deleted', fileId }))
+      );
+    });
+  }, [updateTrash, runWrite]);
+
+  // ゴミ箱の保持期間を変更（過ぎたファイルはすぐに削除）
+  const handleTrashRetentionChange = useCallback((days: number) => {
+    retentionDaysRef.current = days;
+    setTrashRetentionDays(days);
+    saveSettings(currentFileId);
+    const expired = getExpiredTrash(trashRef.current, days);
+    if (expired.length > 0) {
+      purgeFromTrash(expired.map((f) => f.id));
+    }
+  }, [currentFileId, saveSettings, purgeFromTrash]);
+
+  // ワークスペースのバックアップを復元
+  // data はゴミ箱のファイルも含む復元後のデータ
+  const handleRestoreWorkspace = useCallback((data: StorageData) => {
+    // 内容が置き換わるファイルは、置き換える前の内容を履歴に残す
+    data.files.forEach((file) => {
+      const existing = filesRef.current.find((f) => f.id === file.id);
+      if (existing && existing.rawText !== file.rawText) {
+        takeSnapshot(file.id, 'restore');
       }
+    });
+
+    const activeFiles = data.files.filter((f) => !f.deletedAt);
+    nodeCacheRef.current.clear();
+    themeRef.current = data.theme;
+    updateFiles(activeFiles);
+    updateTrash(data.files.filter((f) => f.deletedAt));
+    localEditIdsRef.current.clear();
+    setConflicts([]);
+
+    const retentionDays = data.trashRetentionDays ?? retentionDaysRef.current;
+    retentionDaysRef.current = retentionDays;
+    setTrashRetentionDays(retentionDays);
+    const saved: StorageData = { ...data, trashRetentionDays: retentionDays };
+    runWrite('all', (storage) =>
+      storage.saveAll(saved).then(() => syncRef.current?.notify({ type: 'workspace-replaced' }))
+    );
+
+    const file = activeFiles.find((f) => f.id === data.currentFileId) ?? activeFiles[0];
+    if (file) {
+      setCurrentFileId(file.id);
+      setRawText(file.rawText);
+      loadFileNodes(file.id, file.rawText);
     }
-  }, [files]);
+  }, [updateFiles, updateTrash, runWrite, loadFileNodes, takeSnapshot]);
 
   // テキスト保存
   const handleSaveText = useCallback((text: string) => {
     setRawText(text);
     if (currentFileId) {
-      updateFileText(currentFileId, text);
+      saveFileText(currentFileId, text);
+    }
+  }, [currentFileId, saveFileText]);
+
+  // エディタの保存前の編集内容を記録
+  const handleDraftChange = useCallback((text: string | null) => {
+    editorDraftRef.current = text;
+  }, []);
+
+  // 他のタブで保存された内容で開いているファイルを読み込み直す（ノードIDと展開状態は引き継ぐ）
+  const reloadCurrentFile = useCallback((text: string) => {
+    setRawText(text);
+    const parsedNodes = parseTextToTree(text, getCurrentNodes());
+    expandedIdsRef.current = null;
+    setFocusedNodeId(focusedNodeIdRef.current);
+    setNodes(parsedNodes);
+    setSyncRevision((revision) => revision + 1);
+  }, [getCurrentNodes]);
+
+  // 他のタブで保存されたファイルを反映
+  const applyRemoteFile = useCallback((file: FileData) => {
+    const exists = filesRef.current.some((f) => f.id === file.id);
+    updateFiles(exists ? filesRef.current.map((f) => (f.id === file.id ? file : f)) : [...filesRef.current, file]);
+    localEditIdsRef.current.delete(file.id);
+    setConflicts((prev) => prev.filter((c) => c.local.id !== file.id));
+    if (file.id === currentFileId) {
+      reloadCurrentFile(file.rawText);
+    }
+  }, [currentFileId, updateFiles, reloadCurrentFile]);
+
+  // 他のタブからの変更を処理
+  const handleSyncMessage = useCallback((message: StorageSyncMessage) => {
+    const storage = storageRef.current;
+    if (!storage) return; // 読み込み前に届いた変更は、読み込み時に反映される
 
-      // ファイル名が変わった可能性があるので、files配列を更新
-      const data = loadFromStorage();
-      if (data) {
-        setFiles(data.files);
+    if (message.type === 'workspace-replaced') {
+      storage
+        .load()
+        .then((data) => {
+          if (!data) return;
+          const activeFiles = data.files.filter((f) => !f.deletedAt);
+          if (activeFiles.length === 0) return;
+          nodeCacheRef.current.clear();
+          localEditIdsRef.current.clear();
+          setConflicts([]);
+          updateFiles(activeFiles);
+          updateTrash(data.files.filter((f) => f.deletedAt));
+          retentionDaysRef.current = data.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+          setTrashRetentionDays(retentionDaysRef.current);
+          const file = activeFiles.find((f) => f.id === currentFileId) ?? activeFiles[0];
+          if (file.id === currentFileId) {
+            reloadCurrentFile(file.rawText);
+          } else {
+            setCurrentFileId(file.id);
+            setRawText(file.rawText);
+            loadFileNodes(file.id, file.rawText);
+          }
+        })
+        .catch((error) => console.error('Failed to reload workspace:', error));
+      return;
+    }
+
+    if (message.type === 'file-deleted') {
+      updateTrash(trashRef.current.filter((f) => f.id !== message.fileId));
+      const local = filesRef.current.find((f) => f.id === message.fileId);
+      if (!local) return;
+      if (localEditIdsRef.current.has(local.id) || filesRef.current.length <= 1) {
+        // このタブでの編集が失われないように保存し直す（他のタブには新しいファイルとして届く）
+        writeFile(local, null);
+        return;
       }
+      removeActiveFile(local.id);
+      return;
+    }
+
+    const remote = message.file;
+    // 自動保存を待っている編集内容を先に保存し、このタブでの編集として競合を判定する
+    if (remote.id === currentFileId && editorDraftRef.current !== null) {
+      saveFileText(currentFileId, editorDraftRef.current);
+    }
+    const local = filesRef.current.find((f) => f.id === remote.id);
+
+    // 他のタブでゴミ箱に移動したファイル
+    if (remote.deletedAt) {
+      if (local && filesRef.current.length <= 1) {
+        // 最後のファイルはゴミ箱に移さずに保存し直す
+        writeFile(local, null);
+        return;
+      }
+      // このタブで編集していた内容はゴミ箱のファイルに残す
+      const keepLocal = local && localEditIdsRef.current.has(local.id) && local.rawText !== remote.rawText;
+      const trashed = keepLocal ? { ...local, deletedAt: remote.deletedAt } : remote;
+      if (local) removeActiveFile(local.id);
+      updateTrash([...trashRef.current.filter((f) => f.id !== remote.id), trashed]);
+      if (keepLocal) writeFile(trashed, remote.lastModified);
+      return;
+    }
+
+    // 他のタブでゴミ箱から戻したファイル
+    if (trashRef.current.some((f) => f.id === remote.id)) {
+      updateTrash(trashRef.current.filter((f) => f.id !== remote.id));
+    }
+
+    // 編集元がこのタブの内容と同じか、このタブで編集していなければそのまま反映
+    if (
+      !local ||
+      local.rawText === remote.rawText ||
+      message.basedOn === local.lastModified ||
+      !localEditIdsRef.current.has(local.id)
+    ) {
+      applyRemoteFile(remote);
+      return;
     }
+
+    // 両方のタブで編集された場合は、どちらを残すか確認する
+    setConflicts((prev) => [...prev.filter((c) => c.local.id !== local.id), { local, remote }]);
+  }, [
+    currentFileId,
+    updateFiles,
+    updateTrash,
+    writeFile,
+    saveFileText,
+    removeActiveFile,
+    loadFileNodes,
+    reloadCurrentFile,
+    applyRemoteFile,
+  ]);
+
+  // 同期の処理は最新の状態を参照するため、ref 経由で呼び出す
+  const handleSyncMessageRef = useRef(handleSyncMessage);
+  useEffect(() => {
+    handleSyncMessageRef.current = handleSyncMessage;
+  }, [handleSyncMessage]);
+
+  useEffect(() => {
+    const sync = createStorageSync((message) => handleSyncMessageRef.current(message));
+    syncRef.current = sync;
+    return () => {
+      sync.close();
+      syncRef.current = null;
+    };
+  }, []);
+
+  // 競合を解決（選んだ内容を新しいバージョンとして保存し、他のタブにも反映させる）
+  const handleResolveConflict = useCallback((resolution: ConflictResolution) => {
+    const conflict = conflicts[0];
+    if (!conflict) return;
+    const { remote } = conflict;
+    // 競合の表示中に編集した内容も残す
+    const local = filesRef.current.find((f) => f.id === remote.id) ?? conflict.local;
+
+    if (resolution === 'local') {
+      const resolved = withFileText(local, local.rawText);
+      updateFiles(filesRef.current.map((f) => (f.id === resolved.id ? resolved : f)));
+      setConflicts((prev) => prev.slice(1));
+      writeFile(resolved, remote.lastModified);
+      return;
+    }
+
+    const resolved = withFileText(remote, remote.rawText);
+    applyRemoteFile(resolved);
+    writeFile(resolved, remote.lastModified);
+    if (resolution === 'both') {
+      // 開いているファイルは切り替えずに、このタブの内容を別ファイルとして保存
+      const copy = createFileData(local.rawText);
+      updateFiles([...filesRef.current, copy]);
+      localEditIdsRef.current.add(copy.id);
+      writeFile(copy, null);
+    }
+  }, [conflicts, updateFiles, writeFile, applyRemoteFile]);
+
+  // ツリーを持つ形式（JSON・マインドマップ）のインポート：IDと展開状態をそのまま使う
+  const handleImportNodes = useCallback((importedNodes: TreeNode[], text: string) => {
+    if (currentFileId) {
+      takeSnapshot(currentFileId, 'import');
+    }
+    handleSaveText(text);
+    expandedIdsRef.current = null;
+    focusedNodeIdRef.current = null;
+    setFocusedNodeId(null);
+    setNodes(importedNodes);
+  }, [currentFileId, handleSaveText, takeSnapshot]);
+
+  // ブラウザモードで現在のファイルに取り込む前に、上書き前の内容を履歴に残す
+  const handleBeforeImport = useCallback(() => {
+    if (currentFileId) {
+      takeSnapshot(currentFileId, 'import');
+    }
+  }, [currentFileId, takeSnapshot]);
+
+  // 現在のファイルの履歴を読み込む
+  const loadFileHistory = useCallback((): Promise<FileSnapshot[]> => {
+    return storageRef.current?.loadSnapshots(currentFileId) ?? Promise.resolve([]);
   }, [currentFileId]);
 
+  // 履歴の版に戻す（戻す前の内容も履歴に残す）
+  const handleRestoreSnapshot = useCallback((snapshot: FileSnapshot) => {
+    if (snapshot.fileId !== currentFileId) return;
+    // 保存前の編集内容も、復元前の版として履歴に残す
+    flushEditorDraft();
+    takeSnapshot(currentFileId, 'restore');
+    saveFileText(currentFileId, snapshot.rawText);
+    reloadCurrentFile(snapshot.rawText);
+  }, [currentFileId, flushEditorDraft, takeSnapshot, saveFileText, reloadCurrentFile]);
+
+  // 取り込んだツリーをそれぞれ新しいファイルとして作成し、最後のファイルを開く
+  const handleImportAsNewFiles = useCallback((trees: TreeNode[][]) => {
+    if (trees.length === 0) return;
+
+    // 現在のファイルを保存
+    if (currentFileId) {
+      saveFileText(currentFileId, rawText);
+      cacheCurrentFile();
+    }
+
+    const created = trees.map((importedNodes) => addFile(serializeTreeToText(importedNodes)));
+    const lastFile = created[created.length - 1];
+    saveCurrentFileId(lastFile.id);
+    setRawText(lastFile.rawText);
+    expandedIdsRef.current = null;
+    focusedNodeIdRef.current = null;
+    setFocusedNodeId(null);
+    setNodes(trees[trees.length - 1]);
+  }, [currentFileId, rawText, saveFileText, addFile, saveCurrentFileId, cacheCurrentFile]);
+
   // ノードの展開/折りたたみトグル
   const toggleNode = useCallback((id: string) => {
     const toggleInTree = (nodes: TreeNode[]): TreeNode[] => {
@@ -163,19 +705,13 @@ export function TreeEditor() {
   // ノードの更新（ブラウザモードでの編集）
   const handleUpdateNodes = useCallback((updatedNodes: TreeNode[]) => {
     setNodes(updatedNodes);
-    // 即座にlocalStorageに保存
-    const updatedText = serializeTreeToText(updatedNodes);
+    // 即座にストレージに保存
+    const updatedText = serializeTreeToText(updatedNodes, indentStyle);
     setRawText(updatedText);
     if (currentFileId) {
-      updateFileText(currentFileId, updatedText);
-
-      // ファイル名が変わった可能性があるので、files配列を更新
-      const data = loadFromStorage();
-      if (data) {
-        setFiles(data.files);
-      }
+      saveFileText(currentFileId, updatedText);
     }
-  }, [currentFileId]);
+  }, [currentFileId, indentStyle, saveFileText]);
 
   return (
     <FontSizeProvider>
@@ -185,24 +721,57 @@ export function TreeEditor() {
           currentFileId={currentFileId}
           initialText={rawText}
           onSave={handleSaveText}
+          onDraftChange={handleDraftChange}
+          onImportNodes={handleImportNodes}
+          onImportAsNewFiles={handleImportAsNewFiles}
+          getCurrentNodes={getCurrentNodes}
           onSwitchToBrowser={handleSwitchToBrowser}
           onFileSelect={handleFileSelect}
           onNewFile={handleNewFile}
           onDeleteFile={handleDeleteFile}
+          trash={trash}
+          trashRetentionDays={trashRetentionDays}
+          onRestoreFromTrash={handleRestoreFromTrash}
+          onPurgeTrash={purgeFromTrash}
+          onTrashRetentionChange={handleTrashRetentionChange}
+          saveState={saveState}
+          onRetrySave={handleRetrySave}
+          getWorkspaceData={getWorkspaceData}
+          onRestoreWorkspace={handleRestoreWorkspace}
+          loadHistory={loadFileHistory}
+          onRestoreSnapshot={handleRestoreSnapshot}
         />
       ) : (
         <BrowserView
+          key={`${currentFileId}:${syncRevision}`}
           files={files}
           currentFileId={currentFileId}
           nodes={nodes}
+          initialFocusedNodeId={focusedNodeId}
+          onExpandedIdsChange={handleExpandedIdsChange}
+          onFocusedNodeChange={handleFocusedNodeChange}
           onToggleNode={toggleNode}
           onUpdateNodes={handleUpdateNodes}
+          onImportAsNewFiles={handleImportAsNewFiles}
+          onBeforeImport={handleBeforeImport}
           onSwitchToEditor={handleSwitchToEditor}
           onFileSelect={handleFileSelect}
           onNewFile={handleNewFile}
           onDeleteFile={handleDeleteFile}
+          trash={trash}
+          trashRetentionDays={trashRetentionDays}
+          onRestoreFromTrash={handleRestoreFromTrash}
+          onPurgeTrash={purgeFromTrash}
+          onTrashRetentionChange={handleTrashRetentionChange}
+          saveState={saveState}
+          onRetrySave={handleRetrySave}
+          getWorkspaceData={getWorkspaceData}
+          onRestoreWorkspace={handleRestoreWorkspace}
+          loadHistory={loadFileHistory}
+          onRestoreSnapshot={handleRestoreSnapshot}
         />
       )}
+      {conflicts.length > 0 && <ConflictDialog conflict={conflicts[0]} onResolve={handleResolveConflict} />}
     </FontSizeProvider>
   );
 }
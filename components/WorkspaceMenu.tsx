@@ -0,0 +1,147 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FileData, StorageData } from '@/types';
+import { downloadFile } from '@/utils/fileExporter';
+import {
+  WorkspaceRestoreMode,
+  createWorkspaceArchive,
+  parseWorkspaceArchive,
+  planWorkspaceRestore,
+} from '@/utils/workspaceArchive';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@/utils/trash';
+
+interface WorkspaceMenuProps {
+  getData: () => StorageData;
+  onRestore: (data: StorageData) => void;
+}
+
+export function WorkspaceMenu({ getData, onRestore }: WorkspaceMenuProps) {
+  // 読み込んだバックアップ（復元の確認中）
+  const [incoming, setIncoming] = useState<{ fileName: string; data: StorageData } | null>(null);
+  const [mode, setMode] = useState<WorkspaceRestoreMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleBackup = () => {
+    const data = getData();
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    downloadFile(createWorkspaceArchive(data), `tree-editor-workspace-${date}.json`, 'application/json');
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIncoming({ fileName: file.name, data: parseWorkspaceArchive(await file.text()) });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'バックアップの読み込みに失敗しました');
+    }
+
+    // Reset input so the same file can be selected again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const current = incoming ? getData() : null;
+  const plan = incoming && current ? planWorkspaceRestore(current, incoming.data, mode) : null;
+
+  const handleRestore = () => {
+    if (!plan) return;
+    onRestore(plan.result);
+    setIncoming(null);
+  };
+
+  const renderFiles = (label: string, files: FileData[], className: string) =>
+    files.length > 0 && (
+      <div>
+        <div className={className}>{label}（{files.length}件）</div>
+        <ul className="pl-4 font-mono text-xs">
+          {files.map((file) => (
+            <li key={`${label}-${file.id}`} className="truncate">
+              {file.name}
+              {file.deletedAt && <span className="text-gray-500 dark:text-gray-400">（ゴミ箱）</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <>
+      <input ref={fileInputRef} type="file" accept=".json" onChange={handleFileSelect} className="hidden" />
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value === 'backup') handleBackup();
+          if (e.target.value === 'restore') fileInputRef.current?.click();
+        }}
+        className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="ワークスペース"
+      >
+        <option value="">ワークスペース</option>
+        <option value="backup">バックアップを保存</option>
+        <option value="restore">バックアップから復元</option>
+      </select>
+
+      {incoming && current && plan && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+          onClick={() => setIncoming(null)}
+        >
+          <div
+            className="flex flex-col w-[40rem] max-w-[90vw] max-h-[85vh] p-4 gap-3 bg-white dark:bg-gray-800 rounded shadow-lg text-sm"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="font-bold">{incoming.fileName} から復元</div>
+
+            {/* 復元の方法 */}
+            <div className="flex items-center gap-4">
+              <span className="text-gray-500 dark:text-gray-400">方法</span>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                現在のファイルに追加
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                すべて置き換え
+              </label>
+            </div>
+
+            {/* 変更内容 */}
+            <div className="flex-1 min-h-[8rem] overflow-y-auto p-2 flex flex-col gap-2 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded">
+              {renderFiles('追加', plan.added, 'text-green-700 dark:text-green-400')}
+              {renderFiles('置き換え', plan.updated, 'text-yellow-700 dark:text-yellow-400')}
+              {renderFiles('削除', plan.removed, 'text-red-700 dark:text-red-400')}
+              {renderFiles('変更なし', plan.unchanged, 'text-gray-500 dark:text-gray-400')}
+              {mode === 'replace' && plan.result.trashRetentionDays !== current.trashRetentionDays && (
+                <div className="text-gray-500 dark:text-gray-400">
+                  ゴミ箱の保持期間: {current.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}日 →{' '}
+                  {plan.result.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}日
+                </div>
+              )}
+              {plan.renamedIds > 0 && (
+                <div className="text-gray-500 dark:text-gray-400">
+                  同じIDで内容の異なる {plan.renamedIds} 件は、別のファイルとして追加されます
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setIncoming(null)} className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded">
+                キャンセル
+              </button>
+              <button
+                onClick={handleRestore}
+                className={`px-3 py-1 text-white rounded ${mode === 'replace' ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'}`}
+              >
+                復元
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -8,6 +8,73 @@ export interface TreeNode {
   children: TreeNode[];
   isExpanded: boolean;
   parent?: TreeNode;
+  source?: NodeSource;
+  metadata?: Record<string, unknown>; // ノードごとの任意の付加情報
+}
+
+/**
+ * パース元テキストの書式情報
+ * テキストと深度が変わっていなければ、元の行をそのまま書き戻す
+ */
+export interface NodeSource {
+  line: number; // ノードの1行目の行番号（1始まり）
+  lines: string[]; // ノード本体の元の行（継続行を含む）。空なら書き戻し時に再生成
+  text: string; // パース時のテキスト
+  depth: number; // パース時の深度（補正後）
+  blankLinesBefore: string[]; // 直前の空行（空白のみの行を含む）
+  blankLinesAfter: string[]; // 文書末尾の空行（最後のノードのみ）
+}
+
+/**
+ * JSON形式（tree-editor）のノード
+ * 親への参照は持たず、children の入れ子で階層を表す
+ */
+export interface TreeJsonNode {
+  id: string;
+  text: string;
+  expanded: boolean;
+  metadata?: Record<string, unknown>;
+  children: TreeJsonNode[];
+}
+
+/**
+ * JSON形式（tree-editor）の文書
+ */
+export interface TreeJsonDocument {
+  format: 'tree-editor';
+  version: number;
+  name: string;
+  exportedAt: string;
+  nodes: TreeJsonNode[];
+}
+
+/**
+ * インデント方式の型
+ */
+export interface IndentStyle {
+  unit: 'tab' | 'space';
+  width: number; // スペース何個で1階層とするか
+  mixed: boolean; // タブとスペースが混在しているか
+  ambiguousLines: number[]; // 階層を確定できなかった行番号（1始まり）
+}
+
+/**
+ * パース時に検出した問題の種類
+ */
+export type DiagnosticType =
+  | 'depth-jump' // 親より2階層以上深い
+  | 'orphan-indent' // 親がないのにインデントされている
+  | 'ambiguous-indent' // スペース数が1階層の幅で割り切れない
+  | 'mixed-indent' // 文書の基本方式と異なるインデント
+  | 'orphan-continuation'; // 直前にノードがない継続行
+
+/**
+ * パース時の診断結果
+ */
+export interface ParseDiagnostic {
+  line: number; // 1始まり
+  type: DiagnosticType;
+  message: string;
 }
 
 /**
@@ -54,6 +121,7 @@ export interface FileData {
   name: string;
   rawText: string;
   lastModified: string;
+  deletedAt?: string; // ゴミ箱に移動した日時（ISO形式）
 }
 
 /**
@@ -63,4 +131,84 @@ export interface StorageData {
   files: FileData[];
   currentFileId: string;
   theme: Theme;
+  trashRetentionDays?: number; // ゴミ箱のファイルを自動で削除するまでの日数
+  schemaVersion?: number; // 保存形式のバージョン（読み込み時に古い形式を変換する）
+}
+
+/**
+ * スナップショットを作成したきっかけ
+ * - import: インポートで上書きする前
+ * - mode-switch: モードを切り替えたとき
+ * - interval: 編集中に一定時間ごと
+ * - restore: 履歴から復元する前
+ */
+export type SnapshotReason = 'import' | 'mode-switch' | 'interval' | 'restore';
+
+/**
+ * ファイルのある時点の内容（バージョン履歴）
+ */
+export interface FileSnapshot {
+  id: string;
+  fileId: string;
+  rawText: string;
+  createdAt: string; // ISO形式
+  reason: SnapshotReason;
+}
+
+/**
+ * ストレージの実装（localStorage・IndexedDB）が満たすインターフェース
+ * 書き込みに失敗した場合は Promise を reject する
+ */
+export interface StorageBackend {
+  name: string; // 表示用の名前
+  load(): Promise<StorageData | null>;
+  saveFile(file: FileData): Promise<void>;
+  deleteFile(fileId: string): Promise<void>; // スナップショットも削除
+  saveSettings(settings: Omit<StorageData, 'files'>): Promise<void>;
+  saveAll(data: StorageData): Promise<void>; // 全ファイル・設定を置き換え
+  loadSnapshots(fileId: string): Promise<FileSnapshot[]>; // 新しい順
+  saveSnapshot(snapshot: FileSnapshot): Promise<void>; // 上限を超えた古いスナップショットは削除
+}
+
+/**
+ * 使用するストレージと、そこから読み込んだデータ
+ */
+export interface StorageLoadResult {
+  backend: StorageBackend;
+  data: StorageData | null; // 保存されたデータがない場合は null
+}
+
+/**
+ * ストレージへの書き込み状況
+ */
+export interface SaveState {
+  status: 'saved' | 'saving' | 'failed';
+  unsavedFileIds: string[]; // 書き込みが完了していないファイル（内容はメモリ上に保持）
+  error: string | null; // 最後に失敗した書き込みのエラー
+}
+
+/**
+ * 同じファイルを複数のタブで編集した場合の競合
+ */
+export interface FileConflict {
+  local: FileData; // このタブの内容
+  remote: FileData; // 他のタブで保存された内容
+}
+
+/**
+ * 競合の解決方法
+ * - local: このタブの内容を残す
+ * - remote: 他のタブの内容を使う
+ * - both: 他のタブの内容を使い、このタブの内容は別ファイルとして残す
+ */
+export type ConflictResolution = 'local' | 'remote' | 'both';
+
+/**
+ * ワークスペースのバックアップ（全ファイルと設定）
+ */
+export interface WorkspaceArchive {
+  format: 'tree-editor-workspace';
+  version: number;
+  exportedAt: string;
+  data: StorageData;
 }
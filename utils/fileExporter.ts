@@ -0,0 +1,594 @@
+import { TreeNode, TreeJsonNode, TreeJsonDocument } from '@/types';
+
+/**
+ * JSON形式（tree-editor）の現在のバージョン
+ */
+export const TREE_JSON_VERSION = 1;
+
+/**
+ * エクスポート形式の型
+ */
+export type ExportFormat =
+  | 'opml'
+  | 'markdown'
+  | 'json'
+  | 'tree'
+  | 'html'
+  | 'mermaid'
+  | 'dot'
+  | 'anki-tsv'
+  | 'anki-csv';
+
+/**
+ * Markdownの書き出し方式
+ * - headings: 上位N階層を見出し（#）、それ以下を入れ子の箇条書き
+ * - bullets: 全て箇条書き
+ * - numbered: 全て番号付きリスト
+ */
+export type MarkdownStyle = 'headings' | 'bullets' | 'numbered';
+
+/**
+ * エクスポートのオプション
+ */
+export interface ExportOptions {
+  markdownStyle: MarkdownStyle;
+  headingLevels: number; // headings 方式で見出しにする階層数（1〜6）
+  maxDepth: number; // 図（Mermaid・DOT）に含める階層数（0 は無制限）
+  cardDepth: number; // Anki でカードにする階層（1 がルート）
+  skipLeafCards: boolean; // Anki で子のない（裏面が空の）ノードをカードにしない
+}
+
+/**
+ * エクスポートオプションの既定値
+ */
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  markdownStyle: 'headings',
+  headingLevels: 2,
+  maxDepth: 0,
+  cardDepth: 2,
+  skipLeafCards: true,
+};
+
+/**
+ * エクスポート形式の情報
+ */
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+/**
+ * 対応しているエクスポート形式の一覧（メニューの表示順）
+ */
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'opml', label: 'OPML', extension: 'opml', mimeType: 'text/x-opml' },
+  { format: 'json', label: 'JSON（ID・展開状態を含む）', extension: 'json', mimeType: 'application/json' },
+  { format: 'tree', label: 'ツリー図（罫線）', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'html', label: 'HTML（折りたたみ表示）', extension: 'html', mimeType: 'text/html' },
+  { format: 'mermaid', label: 'Mermaid（マインドマップ）', extension: 'mmd', mimeType: 'text/plain' },
+  { format: 'dot', label: 'Graphviz（DOT）', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  { format: 'anki-tsv', label: 'Anki（TSV）', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+  { format: 'anki-csv', label: 'Anki（CSV）', extension: 'csv', mimeType: 'text/csv' },
+];
+
+/**
+ * XMLの属性値をエスケープ
+ * 改行・タブは属性値の正規化で失われないよう文字参照にする
+ * @param value 属性値
+ * @returns エスケープ済みの文字列
+ */
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '&#10;')
+    .replace(/\t/g, '&#9;');
+}
+
+/**
+ * ツリーをOPMLに変換
+ * ノードの1行目を text、2行目以降をノート（_note）として書き出す
+ * @param nodes TreeNodeの配列
+ * @param title 文書のタイトル
+ * @returns OPML文字列
+ */
+export function convertTreeToOpml(nodes: TreeNode[], title: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXmlAttribute(title)}</title>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  function traverse(node: TreeNode, level: number) {
+    const indent = '  '.repeat(level + 2);
+    const [text, ...noteLines] = node.text.split('\n');
+    let attributes = `text="${escapeXmlAttribute(text)}"`;
+    if (noteLines.length > 0) {
+      attributes += ` _note="${escapeXmlAttribute(noteLines.join('\n'))}"`;
+    }
+
+    if (node.children.length === 0) {
+      lines.push(`${indent}<outline ${attributes}/>`);
+      return;
+    }
+
+    lines.push(`${indent}<outline ${attributes}>`);
+    node.children.forEach((child) => traverse(child, level + 1));
+    lines.push(`${indent}</outline>`);
+  }
+
+  nodes.forEach((node) => traverse(node, 0));
+  lines.push('  </body>', '</opml>');
+  return lines.join('\n');
+}
+
+/**
+ * Markdownの構文として解釈される行頭をエスケープ
+ * @param line 行のテキスト
+ * @returns エスケープ済みの行
+ */
+function escapeMarkdownLineStart(line: string): string {
+  return line
+    .replace(/^(#|>|[-+*](?=\s|$))/, '\\$1')
+    // 番号付きリストは数字の後の区切り文字をエスケープする（1\. の形）
+    .replace(/^(\d+)([.)])(?=\s|$)/, '$1\\$2');
+}
+
+/**
+ * ノードのテキストを Markdown の1ブロック分の行に変換
+ * コードブロック（``` で始まるノード）はそのまま、それ以外は行頭をエスケープする
+ * @param text ノードのテキスト
+ * @returns 行の配列
+ */
+function toMarkdownLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (/^(`{3,}|~{3,})/.test(lines[0])) return lines;
+  return lines.map(escapeMarkdownLineStart);
+}
+
+/**
+ * ツリーをMarkdownに変換
+ * @param nodes TreeNodeの配列
+ * @param options エクスポートオプション
+ * @returns Markdown文字列
+ */
+export function convertTreeToMarkdown(
+  nodes: TreeNode[],
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): string {
+  const headingLevels = options.markdownStyle === 'headings'
+    ? Math.min(6, Math.max(0, options.headingLevels))
+    : 0;
+  const blocks: string[][] = [];
+  let listBlock: string[] | null = null;
+
+  // 見出しの下に続くリストを1ブロックとしてまとめる
+  const listLines = () => {
+    if (!listBlock) {
+      listBlock = [];
+      blocks.push(listBlock);
+    }
+    return listBlock;
+  };
+
+  function traverse(node: TreeNode, level: number, index: number, indent: string) {
+    if (level < headingLevels) {
+      const [heading, ...body] = node.text.split('\n');
+      listBlock = null;
+      blocks.push([`${'#'.repeat(level + 1)} ${heading}`]);
+      if (body.length > 0) blocks.push(toMarkdownLines(body.join('\n')));
+      node.children.forEach((child, i) => traverse(child, level + 1, i, ''));
+      listBlock = null;
+      return;
+    }
+
+    // タスクリストの記号は Markdown のチェックボックスに戻す
+    const text = node.text.replace(/^☐ /, '[ ] ').replace(/^☑ /, '[x] ');
+    const marker = options.markdownStyle === 'numbered' ? `${index + 1}. ` : '- ';
+    const continuationIndent = indent + ' '.repeat(marker.length);
+    const [first, ...rest] = toMarkdownLines(text);
+
+    const lines = listLines();
+    lines.push(`${indent}${marker}${first}`);
+    rest.forEach((line) => lines.push(line === '' ? '' : `${continuationIndent}${line}`));
+    node.children.forEach((child, i) => traverse(child, level + 1, i, continuationIndent));
+  }
+
+  nodes.forEach((node, i) => traverse(node, 0, i, ''));
+  return blocks.map((block) => block.join('\n')).join('\n\n') + '\n';
+}
+
+/**
+ * ツリーを罫線のツリー図（tree コマンド風）に変換
+ * ルートは枝なしで書き出し、ノードの2行目以降は子と同じ位置に揃える
+ * @param nodes TreeNodeの配列
+ * @returns ツリー図の文字列
+ */
+export function convertTreeToBoxDrawing(nodes: TreeNode[]): string {
+  const lines: string[] = [];
+
+  function traverse(node: TreeNode, prefix: string, branch: string, childPrefix: string) {
+    const [first, ...rest] = node.text.split('\n');
+    lines.push(`${prefix}${branch}${first}`);
+    rest.forEach((line) => lines.push(`${childPrefix}${line}`.trimEnd()));
+
+    node.children.forEach((child, i) => {
+      const isLast = i === node.children.length - 1;
+      traverse(
+        child,
+        childPrefix,
+        isLast ? '└── ' : '├── ',
+        childPrefix + (isLast ? '    ' : '│   ')
+      );
+    });
+  }
+
+  nodes.forEach((node) => traverse(node, '', '', ''));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * HTMLのテキストをエスケープ
+ * @param value テキスト
+ * @returns エスケープ済みの文字列
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// HTMLエクスポートのスタイル（ブラウザモードの見た目に合わせる）
+const HTML_EXPORT_STYLE = `
+  body { margin: 0; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 14px; line-height: 1.5; color: #111827; background: #ffffff; }
+  header { position: sticky; top: 0; display: flex; align-items: center; gap: 8px; padding: 6px 12px; background: #f9fafb; border-bottom: 1px solid #e5e7eb; }
+  header h1 { flex: 1; margin: 0; font-size: 14px; }
+  header button { padding: 4px 12px; font: inherit; font-size: 13px; color: #ffffff; background: #6b7280; border: none; border-radius: 4px; cursor: pointer; }
+  header button:hover { background: #4b5563; }
+  main { padding: 8px 12px; }
+  summary, .leaf { display: flex; align-items: flex-start; padding: 0 4px; border-radius: 4px; list-style: none; }
+  summary { cursor: pointer; }
+  summary::-webkit-details-marker { display: none; }
+  summary::before, .leaf::before { flex-shrink: 0; width: 1.25em; color: #4b5563; text-align: center; }
+  summary::before { content: '▸'; }
+  details[open] > summary::before { content: '▾'; }
+  .leaf::before { content: ''; }
+  summary:hover, .leaf:hover { background: #f3f4f6; }
+  .text { white-space: pre-wrap; word-break: break-word; }
+  .children { margin-left: 0.6em; padding-left: 0.9em; border-left: 1px solid #d1d5db; }
+  @media (prefers-color-scheme: dark) {
+    body { color: #f3f4f6; background: #111827; }
+    header { background: #1f2937; border-bottom-color: #374151; }
+    summary::before, .leaf::before { color: #9ca3af; }
+    summary:hover, .leaf:hover { background: #1f2937; }
+    .children { border-left-color: #374151; }
+  }
+`;
+
+/**
+ * ツリーを単体で開けるHTMLに変換
+ * 子を持つノードは <details>/<summary> で折りたたみ可能にし、展開状態を open 属性で保持する
+ * 外部のファイルやスクリプトは読み込まない
+ * @param nodes TreeNodeの配列
+ * @param title 文書のタイトル
+ * @returns HTML文字列
+ */
+export function convertTreeToHtml(nodes: TreeNode[], title: string): string {
+  const lines: string[] = [
+    '<!DOCTYPE html>',
+    '<html lang="ja">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_EXPORT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    `  <h1>${escapeHtml(title)}</h1>`,
+    `  <button type="button" onclick="document.querySelectorAll('details').forEach(function (d) { d.open = true; })">全展開</button>`,
+    `  <button type="button" onclick="document.querySelectorAll('details').forEach(function (d) { d.open = false; })">全折畳</button>`,
+    '</header>',
+    '<main>',
+  ];
+
+  function traverse(node: TreeNode, level: number) {
+    const indent = '  '.repeat(level + 1);
+    const text = `<span class="text">${escapeHtml(node.text)}</span>`;
+
+    if (node.children.length === 0) {
+      lines.push(`${indent}<div class="leaf">${text}</div>`);
+      return;
+    }
+
+    lines.push(`${indent}<details${node.isExpanded ? ' open' : ''}>`);
+    lines.push(`${indent}  <summary>${text}</summary>`);
+    lines.push(`${indent}  <div class="children">`);
+    node.children.forEach((child) => traverse(child, level + 2));
+    lines.push(`${indent}  </div>`);
+    lines.push(`${indent}</details>`);
+  }
+
+  nodes.forEach((node) => traverse(node, 0));
+  lines.push('</main>', '</body>', '</html>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 図に含めるノードの子を取得（階層数の上限を超える子は含めない）
+ * @param node ノード
+ * @param level ノードの階層（ルートが0）
+ * @param maxDepth 含める階層数（0 は無制限）
+ * @returns 子ノードの配列
+ */
+function getDiagramChildren(node: TreeNode, level: number, maxDepth: number): TreeNode[] {
+  return maxDepth > 0 && level + 1 >= maxDepth ? [] : node.children;
+}
+
+/**
+ * Mermaid のラベルをエスケープ
+ * 記号は Mermaid のエンティティコードにし、改行は <br> にする
+ * @param value ラベル
+ * @returns エスケープ済みの文字列
+ */
+function escapeMermaidLabel(value: string): string {
+  return value
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * ツリーを Mermaid の mindmap に変換
+ * ルートが複数ある場合はタイトルを中心のノードにする
+ * @param nodes TreeNodeの配列
+ * @param title 文書のタイトル
+ * @param options エクスポートオプション（maxDepth のみ使用）
+ * @returns Mermaid の文字列
+ */
+export function convertTreeToMermaid(
+  nodes: TreeNode[],
+  title: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): string {
+  const lines: string[] = ['mindmap'];
+  let count = 0;
+
+  function traverse(node: TreeNode, level: number, indent: string) {
+    lines.push(`${indent}n${count++}["${escapeMermaidLabel(node.text)}"]`);
+    getDiagramChildren(node, level, options.maxDepth)
+      .forEach((child) => traverse(child, level + 1, indent + '  '));
+  }
+
+  if (nodes.length === 1) {
+    const [root] = nodes;
+    lines.push(`  root(("${escapeMermaidLabel(root.text)}"))`);
+    getDiagramChildren(root, 0, options.maxDepth).forEach((child) => traverse(child, 1, '    '));
+  } else {
+    lines.push(`  root(("${escapeMermaidLabel(title)}"))`);
+    nodes.forEach((node) => traverse(node, 0, '    '));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Graphviz（DOT）の文字列をエスケープ
+ * @param value 文字列
+ * @returns エスケープ済みの文字列（引用符は含まない）
+ */
+function escapeDotString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * ツリーを Graphviz の DOT（左から右への有向グラフ）に変換
+ * @param nodes TreeNodeの配列
+ * @param title 文書のタイトル
+ * @param options エクスポートオプション（maxDepth のみ使用）
+ * @returns DOT の文字列
+ */
+export function convertTreeToDot(
+  nodes: TreeNode[],
+  title: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): string {
+  const lines: string[] = [
+    `digraph "${escapeDotString(title)}" {`,
+    '  graph [rankdir=LR];',
+    '  node [shape=box, style=rounded, fontname="sans-serif"];',
+  ];
+  const edges: string[] = [];
+  let count = 0;
+
+  function traverse(node: TreeNode, level: number): string {
+    const id = `n${count++}`;
+    lines.push(`  ${id} [label="${escapeDotString(node.text)}"];`);
+    getDiagramChildren(node, level, options.maxDepth).forEach((child) => {
+      edges.push(`  ${id} -> ${traverse(child, level + 1)};`);
+    });
+    return id;
+  }
+
+  nodes.forEach((node) => traverse(node, 0));
+  lines.push(...edges, '}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Anki のフィールド（HTML）に変換
+ * 改行は <br> に、タブは空白にする
+ * @param value テキスト
+ * @returns フィールドの文字列
+ */
+function toAnkiHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * 子ノードを Anki の裏面用の入れ子リスト（HTML）に変換
+ * @param nodes 子ノードの配列
+ * @returns HTML文字列
+ */
+function toAnkiList(nodes: TreeNode[]): string {
+  if (nodes.length === 0) return '';
+  const items = nodes.map((node) => `<li>${toAnkiHtml(node.text)}${toAnkiList(node.children)}</li>`);
+  return `<ul>${items.join('')}</ul>`;
+}
+
+/**
+ * ツリーを Anki で読み込めるフラッシュカード（TSV / CSV）に変換
+ * - 指定した階層のノードを表面、その子を入れ子のリストにしたものを裏面にする
+ * - デッキはタイトルと祖先のパス（::区切り）、タグは祖先のテキスト（空白は _）
+ * @param nodes TreeNodeの配列
+ * @param title 文書のタイトル（親デッキ名）
+ * @param separator 区切り文字
+ * @param options エクスポートオプション（cardDepth・skipLeafCards を使用）
+ * @returns Anki の読み込み用テキスト
+ */
+export function convertTreeToAnki(
+  nodes: TreeNode[],
+  title: string,
+  separator: 'tab' | 'comma',
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): string {
+  const cardLevel = Math.max(1, options.cardDepth) - 1;
+  const delimiter = separator === 'tab' ? '\t' : ',';
+  // 区切り文字・引用符を含むフィールドは引用符で囲む（Anki は TSV でも引用符を解釈する）
+  const toField = (value: string) =>
+    value.includes('"') || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const lines: string[] = [
+    `#separator:${separator === 'tab' ? 'Tab' : 'Comma'}`,
+    '#html:true',
+    '#columns:Front\tBack\tDeck\tTags'.replace(/\t/g, delimiter),
+    '#deck column:3',
+    '#tags column:4',
+  ];
+
+  function traverse(node: TreeNode, level: number, ancestors: string[]) {
+    if (level === cardLevel) {
+      if (options.skipLeafCards && node.children.length === 0) return;
+      const deck = [title, ...ancestors].map((name) => name.replace(/\s+/g, ' ').trim()).join('::');
+      const tags = ancestors.map((name) => name.trim().replace(/\s+/g, '_')).join(' ');
+      lines.push(
+        [toAnkiHtml(node.text), toAnkiList(node.children), toAnkiHtml(deck), toAnkiHtml(tags)]
+          .map(toField)
+          .join(delimiter)
+      );
+      return;
+    }
+    const name = node.text.split('\n')[0];
+    node.children.forEach((child) => traverse(child, level + 1, [...ancestors, name]));
+  }
+
+  nodes.forEach((node) => traverse(node, 0, []));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * ツリーをJSON形式（tree-editor）に変換
+ * 親への参照（parent）やパース時の書式情報（source）は含めない
+ * @param nodes TreeNodeの配列
+ * @param title 文書のタイトル
+ * @returns JSON文字列
+ */
+export function convertTreeToJson(nodes: TreeNode[], title: string): string {
+  const toJsonNode = (node: TreeNode): TreeJsonNode => ({
+    id: node.id,
+    text: node.text,
+    expanded: node.isExpanded,
+    ...(node.metadata ? { metadata: node.metadata } : {}),
+    children: node.children.map(toJsonNode),
+  });
+
+  const document: TreeJsonDocument = {
+    format: 'tree-editor',
+    version: TREE_JSON_VERSION,
+    name: title,
+    exportedAt: new Date().toISOString(),
+    nodes: nodes.map(toJsonNode),
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * ツリーを指定形式の文字列に変換
+ * @param nodes TreeNodeの配列
+ * @param format エクスポート形式
+ * @param title 文書のタイトル
+ * @param options エクスポートオプション
+ * @returns 変換後の文字列
+ */
+export function exportTree(
+  nodes: TreeNode[],
+  format: ExportFormat,
+  title: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): string {
+  switch (format) {
+    case 'markdown':
+      return convertTreeToMarkdown(nodes, options);
+    case 'opml':
+      return convertTreeToOpml(nodes, title);
+    case 'json':
+      return convertTreeToJson(nodes, title);
+    case 'tree':
+      return convertTreeToBoxDrawing(nodes);
+    case 'html':
+      return convertTreeToHtml(nodes, title);
+    case 'mermaid':
+      return convertTreeToMermaid(nodes, title, options);
+    case 'dot':
+      return convertTreeToDot(nodes, title, options);
+    case 'anki-tsv':
+      return convertTreeToAnki(nodes, title, 'tab', options);
+    case 'anki-csv':
+      return convertTreeToAnki(nodes, title, 'comma', options);
+    default:
+      throw new Error(`サポートされていないエクスポート形式です: ${format}`);
+  }
+}
+
+/**
+ * 文字列をファイルとしてダウンロード
+ * @param content ファイルの内容
+ * @param fileName ファイル名
+ * @param mimeType MIMEタイプ
+ */
+export function downloadFile(
+  content: string,
+  fileName: string,
+  mimeType: string
+): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -1,143 +1,1027 @@
+import { TreeNode, TreeJsonNode } from '@/types';
+import { serializeTreeToText, generateNodeId } from './treeParser';
+import { TREE_JSON_VERSION } from './fileExporter';
+
+/**
+ * ファイル選択で受け付ける拡張子（input の accept 属性）
+ */
+export const IMPORT_FILE_ACCEPT = '.rtf,.md,.markdown,.txt,.opml,.json,.mm,.html,.htm';
+
+/**
+ * ファイルインポートの結果
+ * nodes はID・展開状態などテキストでは表せない情報を持つ形式の場合のみ返す
+ */
+export interface ImportResult {
+  text: string;
+  nodes?: TreeNode[];
+}
+
+/**
+ * RTFのグループごとの状態
+ */
+interface RtfGroupState {
+  skip: boolean; // 本文として扱わないグループ（フォントテーブルなど）
+  fontTable: boolean; // フォントテーブルの中か
+  uc: number; // \uN の後に読み飛ばす代替文字数
+  font: number; // 現在のフォント番号
+  leftIndent: number; // \li（twip）
+  firstIndent: number; // \fi（twip）
+  listLevel: number | null; // \ilvl（リストでない段落は null）
+}
+
+/**
+ * 本文として扱わないRTFのデスティネーション
+ */
+const RTF_SKIP_DESTINATIONS = new Set([
+  'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'listtable', 'listoverridetable',
+  'listtext', 'pntext', 'rsidtbl', 'generator', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'xmlnstbl', 'fldinst', 'expandedcolortbl',
+]);
+
+/**
+ * コントロールワード（\word、\wordN）とその区切りの空白1つ
+ */
+const RTF_CONTROL_WORD = /\\([a-zA-Z]+)(-?\d+)? ?/y;
+
+/**
+ * \fcharset の値からコードページへの対応
+ */
+const RTF_CHARSET_CODEPAGES: Record<number, number> = {
+  0: 1252, 77: 10000, 128: 932, 129: 949, 134: 936, 136: 950, 161: 1253, 162: 1254,
+  177: 1255, 178: 1256, 186: 1257, 204: 1251, 222: 874, 238: 1250,
+};
+
+/**
+ * コードページから TextDecoder のラベルを取得
+ * @param codepage コードページ番号
+ * @returns TextDecoder のエンコーディング名
+ */
+function getCodepageLabel(codepage: number): string {
+  switch (codepage) {
+    case 932:
+      return 'shift_jis';
+    case 936:
+      return 'gbk';
+    case 949:
+      return 'euc-kr';
+    case 950:
+      return 'big5';
+    case 10000:
+      return 'macintosh';
+    case 65001:
+      return 'utf-8';
+    default:
+      return codepage >= 1250 && codepage <= 1258 || codepage === 874
+        ? `windows-${codepage}`
+        : 'windows-1252';
+  }
+}
+
+/**
+ * \'hh で表されたバイト列を文字列に変換
+ * @param bytes バイト列
+ * @param codepage コードページ番号
+ * @returns 変換後の文字列
+ */
+function decodeRtfBytes(bytes: number[], codepage: number): string {
+  try {
+    return new TextDecoder(getCodepageLabel(codepage)).decode(new Uint8Array(bytes));
+  } catch {
+    return String.fromCharCode(...bytes);
+  }
+}
+
 /**
  * RTFファイルからプレーンテキスト（タブインデント付き）に変換
+ * グループ・コントロールワードを順に読み、段落（\par）ごとに1ノードとする
+ * 階層はリスト段落なら \ilvl、それ以外は \li（と正の \fi）から求める
  * @param rtfContent RTFファイルの内容
  * @returns タブインデント付きテキスト
  */
 export function convertRtfToTabIndentedText(rtfContent: string): string {
-  const lines: string[] = [];
+  const paragraphs: { text: string; indent: number; listLevel: number | null }[] = [];
+  const fontCodepages = new Map<number, number>();
+  let defaultCodepage = 1252;
+  let defaultFont = 0;
+  let fontTableEntry = 0;
+
+  let state: RtfGroupState = {
+    skip: false,
+    fontTable: false,
+    uc: 1,
+    font: 0,
+    leftIndent: 0,
+    firstIndent: 0,
+    listLevel: null,
+  };
+  const stack: RtfGroupState[] = [];
+
+  let text = '';
+  let pendingBytes: number[] = [];
+  let skipCount = 0; // \uN の代替文字として読み飛ばす残り数
+  let groupStart = false; // 直前がグループ開始 { か
+
+  const codepageOf = (font: number) => fontCodepages.get(font) ?? defaultCodepage;
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    if (!state.skip) {
+      text += decodeRtfBytes(pendingBytes, codepageOf(state.font));
+    }
+    pendingBytes = [];
+  };
 
-  // まず最初にフォントテーブルとインフォセクションを完全に削除
-  let cleanedContent = rtfContent;
+  const appendText = (value: string) => {
+    flushBytes();
+    if (!state.skip) text += value;
+  };
 
-  // フォントテーブルを削除（複数行対応）
-  cleanedContent = cleanedContent.replace(/\{\\fonttbl[^}]*\{[^}]*\}[^}]*\}/g, '');
+  const endParagraph = () => {
+    flushBytes();
+    paragraphs.push({
+      text,
+      indent: state.leftIndent + Math.max(0, state.firstIndent),
+      listLevel: state.listLevel,
+    });
+    text = '';
+  };
 
-  // インフォセクションを削除
-  cleanedContent = cleanedContent.replace(/\{\\info[^}]*\{[^}]*\}[^}]*\}/g, '');
+  // 代替文字の読み飛ばし中なら1文字分消費して true を返す
+  const consumeSkip = () => {
+    if (skipCount > 0) {
+      skipCount--;
+      return true;
+    }
+    return false;
+  };
 
-  // \parで分割して各段落を処理
-  const paragraphs = cleanedContent.split('\\par');
+  let i = 0;
+  while (i < rtfContent.length) {
+    const char = rtfContent[i];
 
-  for (const paragraph of paragraphs) {
-    // インデントレベルを取得 (\li0, \li200, \li400, \li600 など)
-    const indentMatch = paragraph.match(/\\li(\d+)/);
-    let currentIndent = 0;
-    if (indentMatch) {
-      const indentValue = parseInt(indentMatch[1]);
-      // 200単位で階層を計算（li0=0階層, li200=1階層, li400=2階層）
-      currentIndent = Math.floor(indentValue / 200);
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      skipCount = 0;
+      groupStart = true;
+      i++;
+      continue;
     }
 
-    // グループ {...} 全体を抽出
-    const groupMatch = paragraph.match(/\{([^{}]+)\}/);
-    if (!groupMatch) continue;
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? state;
+      skipCount = 0;
+      groupStart = false;
+      i++;
+      continue;
+    }
 
-    let text = groupMatch[1];
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
 
-    // まず全てのRTFコントロールワードを削除（Unicode除く）
-    // \b0, \i0, \fs24 などを削除
-    text = text.replace(/\\[a-z]+\d*/gi, (match) => {
-      // \u で始まるものは残す（Unicode文字なので）
-      if (match.startsWith('\\u')) {
-        return match;
-      }
-      return '';
-    });
+    if (char !== '\\') {
+      groupStart = false;
+      i++;
+      if (consumeSkip()) continue;
+      if (state.fontTable) continue;
+      appendText(char);
+      continue;
+    }
 
-    // Unicode文字を変換: \uNNNNN\'3f -> 対応する文字
-    text = text.replace(/\\u(-?\d+)\\'3f/g, (_match, codePoint) => {
-      const code = parseInt(codePoint);
-      const actualCode = code < 0 ? 65536 + code : code;
-      return String.fromCharCode(actualCode);
-    });
+    // ここからコントロールシンボル・コントロールワード
+    const next = rtfContent[i + 1];
+    const isGroupStart = groupStart;
+    groupStart = false;
 
-    // Unicode文字（\'3fなし）も変換: \uNNNNN
-    text = text.replace(/\\u(-?\d+)/g, (_match, codePoint) => {
-      const code = parseInt(codePoint);
-      const actualCode = code < 0 ? 65536 + code : code;
-      return String.fromCharCode(actualCode);
-    });
+    if (next === "'") {
+      const byte = parseInt(rtfContent.substring(i + 2, i + 4), 16);
+      i += 4;
+      if (consumeSkip() || Number.isNaN(byte) || state.fontTable) continue;
+      pendingBytes.push(byte);
+      continue;
+    }
+
+    if (next === undefined || !/[a-zA-Z]/.test(next)) {
+      i += 2;
+      if (next === '*') {
+        // \* で始まるグループは未知のデスティネーションとして読み飛ばす
+        if (isGroupStart) state.skip = true;
+        continue;
+      }
+      if (consumeSkip()) continue;
+      if (next === '\\' || next === '{' || next === '}') appendText(next);
+      else if (next === '~') appendText(' ');
+      else if (next === '_') appendText('-');
+      else if (next === '\r' || next === '\n') endParagraph();
+      continue;
+    }
+
+    RTF_CONTROL_WORD.lastIndex = i;
+    const match = RTF_CONTROL_WORD.exec(rtfContent)!;
+    const word = match[1];
+    const param = match[2] !== undefined ? parseInt(match[2], 10) : null;
+    i += match[0].length;
 
-    // 残っている \'3f を削除
-    text = text.replace(/\\'3f/g, '');
+    if (word === 'u' && param !== null) {
+      if (consumeSkip()) continue;
+      appendText(String.fromCharCode(param < 0 ? param + 65536 : param));
+      skipCount = state.uc;
+      continue;
+    }
 
-    // エスケープされた特殊文字を変換: \{ -> {, \} -> }, \\ -> \
-    text = text.replace(/\\([{}\\])/g, '$1');
+    if (consumeSkip()) continue;
 
-    // 改行、セミコロン、余分な空白を削除
-    text = text.replace(/[\r\n;]/g, '').trim();
+    if (isGroupStart && (RTF_SKIP_DESTINATIONS.has(word) || word === 'fonttbl')) {
+      flushBytes();
+      state.skip = true;
+      state.fontTable = word === 'fonttbl';
+      continue;
+    }
 
-    // テキストがある場合のみ追加
-    if (text) {
-      const tabs = '\t'.repeat(currentIndent);
-      lines.push(tabs + text);
+    switch (word) {
+      case 'ansicpg':
+        if (param !== null) defaultCodepage = param;
+        break;
+      case 'deff':
+        if (param !== null) defaultFont = param;
+        break;
+      case 'f':
+        flushBytes();
+        if (param === null) break;
+        if (state.fontTable) fontTableEntry = param;
+        else state.font = param;
+        break;
+      case 'fcharset':
+        if (state.fontTable && param !== null && RTF_CHARSET_CODEPAGES[param]) {
+          fontCodepages.set(fontTableEntry, RTF_CHARSET_CODEPAGES[param]);
+        }
+        break;
+      case 'cpg':
+        if (state.fontTable && param !== null) fontCodepages.set(fontTableEntry, param);
+        break;
+      case 'plain':
+        flushBytes();
+        state.font = defaultFont;
+        break;
+      case 'uc':
+        if (param !== null) state.uc = param;
+        break;
+      case 'pard':
+        state.leftIndent = 0;
+        state.firstIndent = 0;
+        state.listLevel = null;
+        break;
+      case 'li':
+        state.leftIndent = param ?? 0;
+        break;
+      case 'fi':
+        state.firstIndent = param ?? 0;
+        break;
+      case 'ilvl':
+        state.listLevel = param ?? 0;
+        break;
+      case 'ls':
+        if (state.listLevel === null) state.listLevel = 0;
+        break;
+      case 'par':
+      case 'sect':
+      case 'page':
+      case 'row':
+        if (!state.skip) endParagraph();
+        break;
+      case 'line':
+        appendText('\n');
+        break;
+      case 'tab':
+      case 'cell':
+        appendText('\t');
+        break;
+      case 'emdash':
+        appendText('—');
+        break;
+      case 'endash':
+        appendText('–');
+        break;
+      case 'bullet':
+        appendText('•');
+        break;
+      case 'lquote':
+        appendText('‘');
+        break;
+      case 'rquote':
+        appendText('’');
+        break;
+      case 'ldblquote':
+        appendText('“');
+        break;
+      case 'rdblquote':
+        appendText('”');
+        break;
     }
   }
+  endParagraph();
 
-  return lines.join('\n');
+  // リストでない段落のインデント幅の最小値を1階層とする
+  const indents = paragraphs
+    .filter((p) => p.listLevel === null && p.indent > 0 && p.text.trim())
+    .map((p) => p.indent);
+  const indentUnit = indents.length > 0 ? Math.min(...indents) : 1;
+
+  // リスト段落は直前の通常段落の子として \ilvl で階層を決める
+  const nodes: TreeNode[] = [];
+  let baseDepth = 0;
+  paragraphs.forEach((paragraph) => {
+    const text = paragraph.text
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n')
+      .trim();
+    if (!text) return;
+
+    let depth: number;
+    if (paragraph.listLevel === null) {
+      depth = Math.round(paragraph.indent / indentUnit);
+      baseDepth = depth + 1;
+    } else {
+      depth = (nodes.length > 0 ? baseDepth : 0) + paragraph.listLevel;
+    }
+
+    nodes.push({
+      id: `rtf-${nodes.length}`,
+      text,
+      depth,
+      children: [],
+      isExpanded: true,
+    });
+  });
+
+  return serializeTreeToText(nodes);
 }
 
 /**
- * マークダウンの見出しをタブインデント付きテキストに変換
+ * マークダウンをタブインデント付きテキストに変換
+ * 見出しレベル → リストの入れ子 → 本文の順に1つの階層にまとめる
+ * - 見出しは上位の見出しの子（レベルが飛んでも1階層ずつ）
+ * - リスト・段落・コードブロックは直前の見出しの子
+ * - リスト項目の内側にインデントされた段落・コードブロックはその項目の子
+ * - フェンスで囲まれたコードブロックは1ノード（複数行）として保持
  * @param markdownContent マークダウンの内容
  * @returns タブインデント付きテキスト
  */
 export function convertMarkdownToTabIndentedText(
   markdownContent: string
 ): string {
-  const lines: string[] = [];
-  const rawLines = markdownContent.split('\n');
+  const nodes: TreeNode[] = [];
+  const headings: { level: number; depth: number }[] = [];
+  // リスト項目のマーカー位置・本文開始位置
+  let listStack: { indent: number; contentIndent: number; depth: number }[] = [];
+  // 直後の行を連結する段落（またはリスト項目）
+  let paragraph: TreeNode | null = null;
+  let paragraphIsHeadingCandidate = false;
+  let fence: { node: TreeNode; marker: string; indent: number } | null = null;
+  let afterBlank = false;
+
+  const pushNode = (text: string, depth: number): TreeNode => {
+    const node: TreeNode = {
+      id: `md-${nodes.length}`,
+      text,
+      depth,
+      children: [],
+      isExpanded: true,
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  const sectionDepth = () => (headings.length > 0 ? headings[headings.length - 1].depth + 1 : 0);
 
-  for (const line of rawLines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
+  // インデント位置から、本文を持つリスト項目の子としての深さを求める
+  const contentDepth = (indent: number) => {
+    while (listStack.length > 0 && listStack[listStack.length - 1].contentIndent > indent) {
+      listStack.pop();
+    }
+    return listStack.length > 0 ? listStack[listStack.length - 1].depth + 1 : sectionDepth();
+  };
+
+  const pushHeading = (text: string, level: number): TreeNode => {
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+      headings.pop();
+    }
+    const depth = headings.length > 0 ? headings[headings.length - 1].depth + 1 : 0;
+    headings.push({ level, depth });
+    listStack = [];
+    return pushNode(text, depth);
+  };
+
+  markdownContent.split('\n').forEach((rawLine) => {
+    // 行頭のタブはスペース4つとして扱う
+    const line = rawLine
+      .replace(/\r$/, '')
+      .replace(/^[\t ]+/, (leading) => leading.replace(/\t/g, '    '));
+    const indent = line.length - line.trimStart().length;
+    const content = line.trim();
+
+    // コードブロックの中
+    if (fence) {
+      if (content.startsWith(fence.marker) && content.replace(/[`~]/g, '') === '') {
+        fence.node.text += `\n${content}`;
+        fence = null;
+      } else {
+        const stripped = line.replace(new RegExp(`^ {0,${fence.indent}}`), '');
+        fence.node.text += `\n${stripped}`;
+      }
+      return;
+    }
+
+    if (!content) {
+      paragraph = null;
+      afterBlank = true;
+      return;
+    }
+
+    const wasAfterBlank = afterBlank;
+    afterBlank = false;
+
+    // フェンス付きコードブロックの開始
+    const fenceMatch = content.match(/^(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      const node = pushNode(content, contentDepth(indent));
+      fence = { node, marker: fenceMatch[1], indent };
+      paragraph = null;
+      return;
+    }
 
-    // マークダウン見出し（#）の数でインデントを決定
-    const headingMatch = trimmed.match(/^(#{1,6})\s+(.+)$/);
+    // ATX見出し（# 見出し）
+    const headingMatch = content.match(/^(#{1,6})\s+(.*?)(\s+#+)?$/);
     if (headingMatch) {
-      const level = headingMatch[1].length - 1; // # = 0, ## = 1, ### = 2
-      const text = headingMatch[2];
-      const tabs = '\t'.repeat(level);
-      lines.push(tabs + text);
-    } else if (trimmed.startsWith('-') || trimmed.startsWith('*')) {
-      // リスト形式の場合
-      const listMatch = trimmed.match(/^[\-\*]\s+(.+)$/);
-      if (listMatch) {
-        // インデントの深さを検出（スペースまたはタブの数）
-        const indentMatch = line.match(/^(\s+)/);
-        const indentLevel = indentMatch
-          ? Math.floor(indentMatch[1].length / 2)
-          : 0;
-        const tabs = '\t'.repeat(indentLevel);
-        lines.push(tabs + listMatch[1]);
+      pushHeading(headingMatch[2], headingMatch[1].length);
+      paragraph = null;
+      return;
+    }
+
+    // Setext見出し（段落の次の行が === / ---。複数行の段落は全体を見出しにする）
+    if (paragraph && paragraphIsHeadingCandidate && /^(=+|-+)$/.test(content)) {
+      const heading = paragraph;
+      nodes.splice(nodes.indexOf(heading), 1);
+      pushHeading(heading.text, content.startsWith('=') ? 1 : 2);
+      paragraph = null;
+      return;
+    }
+
+    // 水平線
+    if (/^([-*_])( *\1){2,}$/.test(content)) {
+      paragraph = null;
+      return;
+    }
+
+    // リスト項目（- * + 1. 1)、タスクリスト）
+    const listMatch = line.match(/^( *)([-*+]|\d{1,9}[.)])( +|$)(.*)$/);
+    if (listMatch) {
+      const contentIndent = indent + listMatch[2].length + Math.max(1, listMatch[3].length);
+      while (listStack.length > 0 && listStack[listStack.length - 1].indent >= indent) {
+        listStack.pop();
+      }
+      const depth = listStack.length > 0 ? listStack[listStack.length - 1].depth + 1 : sectionDepth();
+      const text = listMatch[4]
+        .trim()
+        .replace(/^\[ \]\s*/, '☐ ')
+        .replace(/^\[[xX]\]\s*/, '☑ ');
+      listStack.push({ indent, contentIndent, depth });
+      paragraph = pushNode(text || '（空）', depth);
+      paragraphIsHeadingCandidate = false;
+      return;
+    }
+
+    // 引用の > は取り除いて本文として扱う
+    const text = content.replace(/^(>\s?)+/, '');
+
+    // 空行を挟まない行は直前の段落・リスト項目の続き（段落は複数行でも Setext 見出しになりうる）
+    if (paragraph && !wasAfterBlank) {
+      paragraph.text += `\n${text}`;
+      return;
+    }
+
+    paragraph = pushNode(text, contentDepth(indent));
+    paragraphIsHeadingCandidate = listStack.length === 0;
+  });
+
+  return serializeTreeToText(nodes);
+}
+
+/**
+ * OPMLのアウトラインをタブインデント付きテキストに変換
+ * ノート（_note）はノードの2行目以降（継続行）として取り込む
+ * @param opmlContent OPMLファイルの内容
+ * @returns タブインデント付きテキスト
+ */
+export function convertOpmlToTabIndentedText(opmlContent: string): string {
+  const doc = new DOMParser().parseFromString(opmlContent, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('OPMLファイルの解析に失敗しました');
+  }
+
+  const body = doc.getElementsByTagName('body')[0];
+  if (!body) {
+    throw new Error('OPMLファイルに body 要素がありません');
+  }
+
+  const toNodes = (parent: Element, depth: number): TreeNode[] => {
+    const nodes: TreeNode[] = [];
+    Array.from(parent.children).forEach((element) => {
+      if (element.tagName !== 'outline') return;
+
+      // テキスト中のHTMLタグ（<b> など）は取り除く
+      const text = (element.getAttribute('text') ?? element.getAttribute('title') ?? '')
+        .replace(/<[^>]+>/g, '')
+        .trim();
+      const note = (element.getAttribute('_note') ?? '').replace(/\r\n?/g, '\n').trim();
+      const children = toNodes(element, depth + 1);
+
+      // 空のアウトラインは子がある場合のみ残す
+      if (!text && !note && children.length === 0) return;
+
+      nodes.push({
+        id: `opml-${depth}-${nodes.length}`,
+        text: note ? `${text}\n${note}` : text || '（無題）',
+        depth,
+        children,
+        isExpanded: true,
+      });
+    });
+    return nodes;
+  };
+
+  return serializeTreeToText(toNodes(body, 0));
+}
+
+// 改行として扱うHTMLのブロック要素
+const HTML_BLOCK_TAGS = new Set([
+  'p', 'div', 'br', 'li', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'blockquote',
+  'ul', 'ol', 'dl', 'dt', 'dd', 'table', 'section', 'article', 'header', 'footer', 'main', 'figure',
+]);
+
+// テキストとして取り込まないHTML要素
+const HTML_IGNORED_TAGS = new Set(['head', 'style', 'script', 'meta', 'title', 'template']);
+
+/**
+ * HTML（マインドマップのリッチコンテンツ・クリップボードなど）をプレーンテキストに変換
+ * ブロック要素の区切りを改行にし、空行は取り除く
+ * @param nodes 変換するノード
+ * @param skipTags 中身ごと読み飛ばす要素名
+ * @returns テキスト
+ */
+function getHtmlText(nodes: Node[], skipTags: Set<string> = new Set()): string {
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      text += (node.nodeValue ?? '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const tag = (node as Element).localName.toLowerCase();
+    if (HTML_IGNORED_TAGS.has(tag) || skipTags.has(tag)) return;
+    const isBlock = HTML_BLOCK_TAGS.has(tag);
+    if (isBlock) text += '\n';
+    node.childNodes.forEach(walk);
+    if (isBlock) text += '\n';
+  };
+  nodes.forEach(walk);
+
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .join('\n');
+}
+
+/**
+ * FreeMind / Freeplane のマインドマップ（.mm）をツリーに変換
+ * 折りたたまれたノード（FOLDED="true"）は閉じた状態で取り込む
+ * @param mmContent .mm ファイルの内容
+ * @returns TreeNodeの配列
+ */
+export function parseMindMap(mmContent: string): TreeNode[] {
+  const doc = new DOMParser().parseFromString(mmContent, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('マインドマップファイルの解析に失敗しました');
+  }
+
+  const map = doc.documentElement;
+  if (!map || map.tagName !== 'map') {
+    throw new Error('マインドマップファイルに map 要素がありません');
+  }
+
+  const toNodes = (parentElement: Element, depth: number, parent?: TreeNode): TreeNode[] => {
+    const nodes: TreeNode[] = [];
+    Array.from(parentElement.children).forEach((element) => {
+      if (element.tagName !== 'node') return;
+
+      // 本文は TEXT 属性、なければリッチコンテンツ（TYPE="NODE"）から取る
+      let text = (element.getAttribute('TEXT') ?? element.getAttribute('LOCALIZED_TEXT') ?? '').trim();
+      const notes: string[] = [];
+      Array.from(element.children).forEach((child) => {
+        if (child.tagName !== 'richcontent') return;
+        const content = getHtmlText([child]);
+        if (!content) return;
+        if (child.getAttribute('TYPE') === 'NODE') {
+          if (!text) text = content;
+        } else {
+          // NOTE・DETAILS はノードの2行目以降として取り込む
+          notes.push(content);
+        }
+      });
+
+      const node: TreeNode = {
+        id: generateNodeId(),
+        text: [text.replace(/\r\n?/g, '\n') || '（無題）', ...notes].join('\n'),
+        depth,
+        children: [],
+        isExpanded: element.getAttribute('FOLDED') !== 'true',
+        parent,
+      };
+      node.children = toNodes(element, depth + 1, node);
+      nodes.push(node);
+    });
+    return nodes;
+  };
+
+  return toNodes(map, 0);
+}
+
+/**
+ * HTMLがアウトライン（リスト・見出し）を含むかどうか
+ * @param htmlContent HTML
+ * @returns 含む場合は true
+ */
+export function hasHtmlOutline(htmlContent: string): boolean {
+  return /<(ul|ol|li|h[1-6])[\s>]/i.test(htmlContent);
+}
+
+/**
+ * HTMLの入れ子リスト・見出しをタブインデント付きテキストに変換
+ * Webページ・Google ドキュメント・Notion からコピーしたHTMLを想定
+ * - 見出しは上位の見出しの子、リスト・段落は直前の見出しの子
+ * - ul/ol の入れ子（Google ドキュメントの aria-level も含む）をリストの階層にする
+ * - チェックボックス付きの項目はタスクリストの記号（☐ / ☑）にする
+ * @param htmlContent HTMLの内容
+ * @returns タブインデント付きテキスト
+ */
+export function convertHtmlToTabIndentedText(htmlContent: string): string {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const nodes: TreeNode[] = [];
+  const headings: { level: number; depth: number }[] = [];
+  const listSelector = 'ul, ol';
+  const blockSelector = 'ul, ol, li, h1, h2, h3, h4, h5, h6, p, div, pre, blockquote, table';
+
+  const pushNode = (text: string, depth: number): TreeNode => {
+    const node: TreeNode = {
+      id: `html-${nodes.length}`,
+      text,
+      depth,
+      children: [],
+      isExpanded: true,
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  const sectionDepth = () => (headings.length > 0 ? headings[headings.length - 1].depth + 1 : 0);
+
+  const pushHeading = (text: string, level: number) => {
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+      headings.pop();
+    }
+    const depth = headings.length > 0 ? headings[headings.length - 1].depth + 1 : 0;
+    headings.push({ level, depth });
+    pushNode(text, depth);
+  };
+
+  // 要素の内側にある（別のリストに含まれない）リストを順に処理
+  const forEachNestedList = (element: Element, callback: (list: Element) => void) => {
+    Array.from(element.children).forEach((child) => {
+      if (child.matches(listSelector)) {
+        callback(child);
+      } else {
+        forEachNestedList(child, callback);
+      }
+    });
+  };
+
+  const walkListItem = (item: Element, baseDepth: number) => {
+    // Google ドキュメントは入れ子を aria-level で表す
+    const level = Number(item.getAttribute('aria-level')) || 1;
+    const lastDepth = nodes.length > 0 ? nodes[nodes.length - 1].depth : -1;
+    const depth = Math.max(baseDepth, Math.min(baseDepth + level - 1, lastDepth + 1));
+
+    const checkbox = Array.from(item.querySelectorAll('input[type="checkbox"]'))
+      .find((input) => input.closest('li') === item);
+    const prefix = checkbox ? (checkbox.hasAttribute('checked') ? '☑ ' : '☐ ') : '';
+    const text = getHtmlText(Array.from(item.childNodes), new Set(['ul', 'ol']));
+    pushNode(prefix + text || '（空）', depth);
+
+    forEachNestedList(item, (list) => walkList(list, depth));
+  };
+
+  const walkList = (list: Element, parentDepth: number | null) => {
+    const baseDepth = parentDepth === null ? sectionDepth() : parentDepth + 1;
+    Array.from(list.children).forEach((child) => {
+      if (child.localName === 'li') {
+        walkListItem(child, baseDepth);
+      } else if (child.matches(listSelector)) {
+        // li の外に置かれた入れ子リストは直前の項目の子
+        const lastDepth = nodes.length > 0 ? nodes[nodes.length - 1].depth : null;
+        walkList(child, lastDepth !== null && lastDepth >= baseDepth ? lastDepth : parentDepth);
+      }
+    });
+  };
+
+  const walkChildren = (parent: Element) => {
+    // ブロック要素の間にあるテキスト・インライン要素は1つの段落にまとめる
+    let inline: Node[] = [];
+    const flushInline = () => {
+      const text = getHtmlText(inline);
+      if (text) pushNode(text, sectionDepth());
+      inline = [];
+    };
+
+    Array.from(parent.childNodes).forEach((child) => {
+      if (child.nodeType !== 1) {
+        inline.push(child);
+        return;
+      }
+
+      const element = child as Element;
+      const tag = element.localName;
+      if (HTML_IGNORED_TAGS.has(tag)) return;
+
+      const headingMatch = tag.match(/^h([1-6])$/);
+      if (headingMatch) {
+        flushInline();
+        const text = getHtmlText([element]);
+        if (text) pushHeading(text, Number(headingMatch[1]));
+      } else if (tag === 'ul' || tag === 'ol') {
+        flushInline();
+        walkList(element, null);
+      } else if (tag === 'li') {
+        flushInline();
+        walkListItem(element, sectionDepth());
+      } else if (tag === 'pre') {
+        // 整形済みテキストは空白を保ったまま1ノードにする
+        flushInline();
+        const text = (element.textContent ?? '').replace(/\r\n?/g, '\n').replace(/^\n+|\s+$/g, '');
+        if (text) pushNode(text, sectionDepth());
+      } else if (element.querySelector(blockSelector)) {
+        // ブロック要素を含むラッパー（Google ドキュメントの <b> など）は中身を処理
+        flushInline();
+        walkChildren(element);
+      } else if (HTML_BLOCK_TAGS.has(tag)) {
+        flushInline();
+        const text = getHtmlText([element]);
+        if (text) pushNode(text, sectionDepth());
+      } else {
+        inline.push(element);
       }
+    });
+    flushInline();
+  };
+
+  walkChildren(doc.body);
+  return serializeTreeToText(nodes);
+}
+
+// ツリー図の枝（├── └── や ASCII の |-- `-- +--）と、その手前の縦線・空白
+const TREE_DIAGRAM_BRANCH = /^([│┃║|\s]*?)([├└┣┗╠╚][─━═]*|[|`+\\]-+)\s*(.*)$/;
+// tree コマンドの末尾の集計行（3 directories, 5 files）
+const TREE_DIAGRAM_SUMMARY = /^\d+ director(y|ies)(, \d+ files?)?$/;
+
+/**
+ * パス一覧（a/b/c を1行に1つ）かどうか
+ * 日付（2024/01/05）や A/B 形式の語句を誤って変換しないように、次のいずれかを満たす場合のみパスとみなす
+ * - すべての行が / ./ ../ ~/ で始まる
+ * - すべての行の最上位が共通で、拡張子の付いたファイルか / で終わるフォルダを含む
+ * @param lines 空行を除いた行
+ * @returns パス一覧なら true
+ */
+function isPathList(lines: string[]): boolean {
+  if (
+    lines.length < 2 ||
+    !lines.every((line) => /^\S+$/.test(line) && line.includes('/') && !line.includes('://'))
+  ) {
+    return false;
+  }
+  if (lines.every((line) => /^(\.{1,2}|~)?\//.test(line))) return true;
+
+  const top = lines[0].split('/')[0];
+  return (
+    lines.every((line) => line.split('/')[0] === top) &&
+    lines.some((line) => line.endsWith('/') || /\.[A-Za-z][\w-]*$/.test(line.split('/').pop() ?? ''))
+  );
+}
+
+/**
+ * テキストがツリー図（tree コマンドの出力・罫線やASCIIの枝・パス一覧）かどうか
+ * @param content テキスト
+ * @returns ツリー図なら true
+ */
+export function isTreeDiagram(content: string): boolean {
+  const lines = content.split(/\r?\n/).map((line) => line.trimEnd()).filter((line) => line !== '');
+  if (lines.length === 0) return false;
+  if (isPathList(lines)) return true;
+
+  // 枝の行と、罫線の縦線で始まる行（枝のない行・縦線だけの行）が半分以上ならツリー図
+  const branchLines = lines.filter((line) => TREE_DIAGRAM_BRANCH.test(line)).length;
+  const barLines = lines.filter((line) => !TREE_DIAGRAM_BRANCH.test(line) && /^\s*[│┃║]/.test(line)).length;
+  return branchLines > 0 && (branchLines + barLines) * 2 >= lines.length;
+}
+
+/**
+ * ツリー図・パス一覧をタブインデント付きテキストに変換
+ * - 枝の位置（列）から階層を求め、枝のない先頭の行はルートにする
+ * - 枝のない行（Windows の tree /f のファイル行）は、枝1つ分右の位置にあるものとして扱う
+ * - パス一覧は共通の上位パスをまとめて入れ子にする
+ * @param content ツリー図のテキスト
+ * @returns タブインデント付きテキスト
+ */
+export function convertTreeDiagramToTabIndentedText(content: string): string {
+  const lines = content.split(/\r?\n/).map((line) => line.trimEnd()).filter((line) => line !== '');
+  const nodes: TreeNode[] = [];
+
+  const pushNode = (text: string, depth: number, children: TreeNode[] = []): TreeNode => {
+    const node: TreeNode = {
+      id: `diagram-${nodes.length}`,
+      text,
+      depth,
+      children,
+      isExpanded: true,
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  if (isPathList(lines)) {
+    // 上位パスが共通のものは同じノードにまとめる
+    const roots: TreeNode[] = [];
+    lines.forEach((line) => {
+      let siblings = roots;
+      line
+        .replace(/^\.\//, '')
+        .split('/')
+        .filter((segment) => segment !== '')
+        .forEach((segment, depth) => {
+          let node = siblings.find((n) => n.text === segment);
+          if (!node) {
+            node = pushNode(segment, depth);
+            siblings.push(node);
+          }
+          siblings = node.children;
+        });
+    });
+    return serializeTreeToText(roots);
+  }
+
+  // 枝の列の位置（祖先から順に）
+  let columns: number[] = [];
+  let hasRoot = false;
+
+  lines.forEach((line) => {
+    if (TREE_DIAGRAM_SUMMARY.test(line.trim())) return;
+
+    const branchMatch = line.match(TREE_DIAGRAM_BRANCH);
+    let column: number;
+    let text: string;
+    if (branchMatch) {
+      column = branchMatch[1].length;
+      text = branchMatch[3];
     } else {
-      // 通常のテキスト
-      lines.push(trimmed);
+      const prefix = line.match(/^[│┃║|\s]*/)?.[0] ?? '';
+      text = line.substring(prefix.length);
+      // 縦線だけの行は飛ばす
+      if (!text) return;
+      if (prefix.length === 0) {
+        // 枝のない左端の行はルート
+        pushNode(text, 0);
+        columns = [];
+        hasRoot = true;
+        return;
+      }
+      column = Math.max(0, prefix.length - 4);
+    }
+
+    while (columns.length > 0 && columns[columns.length - 1] >= column) {
+      columns.pop();
     }
+    pushNode(text || '（空）', columns.length + (hasRoot ? 1 : 0));
+    columns.push(column);
+  });
+
+  return serializeTreeToText(nodes);
+}
+
+/**
+ * JSON形式（tree-editor）をツリーに変換
+ * IDが無い・重複しているノードには新しいIDを割り当てる
+ * @param jsonContent JSONファイルの内容
+ * @returns TreeNodeの配列と文書名
+ */
+export function parseTreeJson(jsonContent: string): { name: string; nodes: TreeNode[] } {
+  let document: unknown;
+  try {
+    document = JSON.parse(jsonContent);
+  } catch {
+    throw new Error('JSONファイルの解析に失敗しました');
+  }
+
+  if (
+    typeof document !== 'object' ||
+    document === null ||
+    (document as { format?: unknown }).format !== 'tree-editor'
+  ) {
+    throw new Error('tree-editor 形式のJSONではありません');
+  }
+
+  const { version, name, nodes } = document as {
+    version?: unknown;
+    name?: unknown;
+    nodes?: unknown;
+  };
+  if (typeof version !== 'number' || version > TREE_JSON_VERSION) {
+    throw new Error(`対応していないJSONのバージョンです: ${String(version)}`);
   }
+  if (!Array.isArray(nodes)) {
+    throw new Error('JSONに nodes 配列がありません');
+  }
+
+  const seenIds = new Set<string>();
+  const toTreeNode = (value: TreeJsonNode, depth: number, parent?: TreeNode): TreeNode => {
+    if (typeof value !== 'object' || value === null || typeof value.text !== 'string') {
+      throw new Error('JSONのノードに text がありません');
+    }
 
-  return lines.join('\n');
+    const id = typeof value.id === 'string' && value.id && !seenIds.has(value.id)
+      ? value.id
+      : generateNodeId();
+    seenIds.add(id);
+
+    const node: TreeNode = {
+      id,
+      text: value.text,
+      depth,
+      children: [],
+      isExpanded: value.expanded !== false,
+      parent,
+    };
+    if (value.metadata && typeof value.metadata === 'object') {
+      node.metadata = value.metadata;
+    }
+    node.children = (Array.isArray(value.children) ? value.children : []).map((child) =>
+      toTreeNode(child, depth + 1, node)
+    );
+    return node;
+  };
+
+  return {
+    name: typeof name === 'string' ? name : '',
+    nodes: (nodes as TreeJsonNode[]).map((node) => toTreeNode(node, 0)),
+  };
 }
 
 /**
  * ファイルの内容を読み込んでタブインデント付きテキストに変換
  * @param file ファイルオブジェクト
- * @returns タブインデント付きテキスト
+ * @returns タブインデント付きテキスト（JSON・マインドマップの場合はツリーも）
  */
-export async function importFile(file: File): Promise<string> {
+export async function importFile(file: File): Promise<ImportResult> {
   const content = await file.text();
   const extension = file.name.split('.').pop()?.toLowerCase();
 
   switch (extension) {
     case 'rtf':
-      return convertRtfToTabIndentedText(content);
+      return { text: convertRtfToTabIndentedText(content) };
     case 'md':
     case 'markdown':
-      return convertMarkdownToTabIndentedText(content);
+      return { text: convertMarkdownToTabIndentedText(content) };
+    case 'opml':
+      return { text: convertOpmlToTabIndentedText(content) };
     case 'txt':
-      // プレーンテキストはそのまま返す
-      return content;
+      // ツリー図は階層に変換し、それ以外のプレーンテキストはそのまま返す
+      return { text: isTreeDiagram(content) ? convertTreeDiagramToTabIndentedText(content) : content };
+    case 'json': {
+      const { nodes } = parseTreeJson(content);
+      return { text: serializeTreeToText(nodes), nodes };
+    }
+    case 'html':
+    case 'htm':
+      return { text: convertHtmlToTabIndentedText(content) };
+    case 'mm': {
+      const nodes = parseMindMap(content);
+      return { text: serializeTreeToText(nodes), nodes };
+    }
     default:
       throw new Error(
         `サポートされていないファイル形式です: ${extension}`
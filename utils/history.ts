@@ -0,0 +1,48 @@
+import { FileData, FileSnapshot, SnapshotReason } from '@/types';
+
+/**
+ * ファイルごとに残すスナップショットの上限
+ */
+export const MAX_SNAPSHOTS_PER_FILE = 30;
+
+/**
+ * 編集中にスナップショットを作成する間隔（分）
+ */
+export const SNAPSHOT_INTERVAL_MINUTES = 5;
+
+/**
+ * スナップショットを作成したきっかけの表示名
+ */
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  import: 'インポート前',
+  'mode-switch': 'モード切替',
+  interval: '自動',
+  restore: '復元前',
+};
+
+/**
+ * ファイルの現在の内容からスナップショットを作成
+ * @param file ファイルのデータ
+ * @param reason 作成したきっかけ
+ * @returns スナップショット
+ */
+export function createSnapshot(file: FileData, reason: SnapshotReason): FileSnapshot {
+  return {
+    id: `snapshot-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    fileId: file.id,
+    rawText: file.rawText,
+    createdAt: new Date().toISOString(),
+    reason,
+  };
+}
+
+/**
+ * 上限を超えた古いスナップショットを求める
+ * @param snapshots 同じファイルのスナップショット
+ * @returns 削除するスナップショット
+ */
+export function getExpiredSnapshots(snapshots: FileSnapshot[]): FileSnapshot[] {
+  return [...snapshots]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(MAX_SNAPSHOTS_PER_FILE);
+}
@@ -0,0 +1,230 @@
+import { FileData, FileSnapshot, StorageBackend, Theme } from '@/types';
+import { getExpiredSnapshots } from './history';
+import { CURRENT_SCHEMA_VERSION, migrateStorageData } from './localStorage';
+
+const DB_NAME = 'tree-editor';
+const DB_VERSION = 2;
+const FILES_STORE = 'files'; // ファイルごとに1レコード（キーはファイルID）
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'workspace';
+const BACKUP_KEY_PREFIX = 'backup-'; // マイグレーション前のデータの退避先（設定のストアに保存）
+const SNAPSHOTS_STORE = 'snapshots'; // バージョン履歴（fileId で検索）
+const SNAPSHOTS_BY_FILE = 'fileId';
+
+/**
+ * 設定のレコード
+ * IndexedDB はキー順に返すため、ファイルの並び順もここに保存する
+ */
+interface StoredSettings {
+  currentFileId: string;
+  theme: Theme;
+  trashRetentionDays?: number;
+  schemaVersion?: number; // 保存形式のバージョン（ない場合は 1）
+  fileOrder: string[];
+}
+
+const DEFAULT_SETTINGS: StoredSettings = {
+  currentFileId: '',
+  theme: 'light',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  fileOrder: [],
+};
+
+/**
+ * IDBRequest の結果を Promise で受け取る
+ * @param request リクエスト
+ * @returns 結果
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * トランザクションの完了を待つ（容量不足などで中断された場合は reject）
+ * @param transaction トランザクション
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * データベースを開く（初回はオブジェクトストアを作成）
+ * 他のタブの古い接続で更新が止まっている間は、失敗にせず閉じられるまで待つ
+ * @param onBlocked 他のタブで更新が止まっているときに呼ばれる関数
+ * @returns データベース
+ */
+export function openDatabase(onBlocked?: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        snapshots.createIndex(SNAPSHOTS_BY_FILE, 'fileId');
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // 他のタブで新しいバージョンを開くときは、更新を止めないように接続を閉じる
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => onBlocked?.();
+  });
+}
+
+/**
+ * 同じトランザクション内で設定を読み込んで更新
+ * @param store 設定のオブジェクトストア
+ * @param update 更新内容を返す関数
+ */
+function updateSettings(store: IDBObjectStore, update: (settings: StoredSettings) => StoredSettings): void {
+  const request = store.get(SETTINGS_KEY);
+  request.onsuccess = () => {
+    const settings: StoredSettings = { ...DEFAULT_SETTINGS, ...(request.result as StoredSettings | undefined) };
+    store.put(update(settings), SETTINGS_KEY);
+  };
+}
+
+/**
+ * 同じトランザクション内でファイルのスナップショットを削除
+ * @param store スナップショットのオブジェクトストア
+ * @param fileId ファイルID
+ * @param select 削除するスナップショットを選ぶ関数
+ */
+function deleteSnapshots(
+  store: IDBObjectStore,
+  fileId: string,
+  select: (snapshots: FileSnapshot[]) => FileSnapshot[]
+): void {
+  const request = store.index(SNAPSHOTS_BY_FILE).getAll(fileId);
+  request.onsuccess = () => {
+    select(request.result as FileSnapshot[]).forEach((snapshot) => store.delete(snapshot.id));
+  };
+}
+
+/**
+ * IndexedDB を使うストレージを作成
+ * ファイルを1件ずつ保存するため、編集中のファイルの書き込みで他のファイルを書き直さない
+ * @param db 開いたデータベース
+ * @returns ストレージ
+ */
+export function createIndexedDbBackend(db: IDBDatabase): StorageBackend {
+  const backend: StorageBackend = {
+    name: 'IndexedDB',
+
+    async load() {
+      const transaction = db.transaction([FILES_STORE, SETTINGS_STORE], 'readonly');
+      const [files, stored] = await Promise.all([
+        requestToPromise(transaction.objectStore(FILES_STORE).getAll() as IDBRequest<FileData[]>),
+        requestToPromise(transaction.objectStore(SETTINGS_STORE).get(SETTINGS_KEY) as IDBRequest<StoredSettings | undefined>),
+      ]);
+      if (files.length === 0) return null;
+
+      // 保存した並び順に戻す（並び順にないファイルは末尾）
+      const settings = { ...DEFAULT_SETTINGS, ...stored };
+      const position = (id: string) => {
+        const index = settings.fileOrder.indexOf(id);
+        return index === -1 ? settings.fileOrder.length : index;
+      };
+      files.sort((a, b) => position(a.id) - position(b.id));
+
+      const saved = {
+        files,
+        currentFileId: settings.currentFileId,
+        theme: settings.theme,
+        trashRetentionDays: settings.trashRetentionDays,
+        schemaVersion: stored?.schemaVersion ?? 1,
+      };
+      const { data, fromVersion } = migrateStorageData(saved);
+      if (fromVersion !== CURRENT_SCHEMA_VERSION) {
+        // 変換前のデータを退避してから、変換後のデータで置き換える
+        const backupTransaction = db.transaction(SETTINGS_STORE, 'readwrite');
+        backupTransaction.objectStore(SETTINGS_STORE).put(saved, `${BACKUP_KEY_PREFIX}v${fromVersion}`);
+        await transactionDone(backupTransaction);
+        await backend.saveAll(data);
+      }
+      return data;
+    },
+
+    async saveFile(file) {
+      const transaction = db.transaction([FILES_STORE, SETTINGS_STORE], 'readwrite');
+      transaction.objectStore(FILES_STORE).put(file);
+      updateSettings(transaction.objectStore(SETTINGS_STORE), (settings) =>
+        settings.fileOrder.includes(file.id)
+          ? settings
+          : { ...settings, fileOrder: [...settings.fileOrder, file.id] }
+      );
+      await transactionDone(transaction);
+    },
+
+    async deleteFile(fileId) {
+      const transaction = db.transaction([FILES_STORE, SETTINGS_STORE, SNAPSHOTS_STORE], 'readwrite');
+      transaction.objectStore(FILES_STORE).delete(fileId);
+      deleteSnapshots(transaction.objectStore(SNAPSHOTS_STORE), fileId, (snapshots) => snapshots);
+      updateSettings(transaction.objectStore(SETTINGS_STORE), (settings) => ({
+        ...settings,
+        fileOrder: settings.fileOrder.filter((id) => id !== fileId),
+      }));
+      await transactionDone(transaction);
+    },
+
+    async saveSettings(workspaceSettings) {
+      const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+      updateSettings(transaction.objectStore(SETTINGS_STORE), (settings) => ({
+        ...settings,
+        ...workspaceSettings,
+      }));
+      await transactionDone(transaction);
+    },
+
+    async saveAll(data) {
+      const transaction = db.transaction([FILES_STORE, SETTINGS_STORE], 'readwrite');
+      const filesStore = transaction.objectStore(FILES_STORE);
+      filesStore.clear();
+      data.files.forEach((file) => filesStore.put(file));
+      transaction.objectStore(SETTINGS_STORE).put(
+        {
+          currentFileId: data.currentFileId,
+          theme: data.theme,
+          trashRetentionDays: data.trashRetentionDays,
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+          fileOrder: data.files.map((f) => f.id),
+        } satisfies StoredSettings,
+        SETTINGS_KEY
+      );
+      await transactionDone(transaction);
+    },
+
+    async loadSnapshots(fileId) {
+      const transaction = db.transaction(SNAPSHOTS_STORE, 'readonly');
+      const snapshots = await requestToPromise(
+        transaction.objectStore(SNAPSHOTS_STORE).index(SNAPSHOTS_BY_FILE).getAll(fileId) as IDBRequest<FileSnapshot[]>
+      );
+      return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async saveSnapshot(snapshot) {
+      const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      const store = transaction.objectStore(SNAPSHOTS_STORE);
+      store.put(snapshot);
+      deleteSnapshots(store, snapshot.fileId, getExpiredSnapshots);
+      await transactionDone(transaction);
+    },
+  };
+  return backend;
+}
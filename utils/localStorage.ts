@@ -1,8 +1,20 @@
-import { StorageData, FileData, Theme } from '@/types';
+import { StorageData, FileData, FileSnapshot, Theme, StorageBackend } from '@/types';
 import { parseTextToTree } from './treeParser';
+import { getExpiredSnapshots } from './history';
 
 const STORAGE_KEY = 'tree-editor-data';
-const LEGACY_KEY = 'tree-editor-data'; // 旧形式との互換性用
+const BACKUP_KEY_PREFIX = 'tree-editor-data-backup-'; // マイグレーション前・読み込めなかったデータの退避先
+const SNAPSHOTS_KEY = 'tree-editor-snapshots'; // ファイルIDごとのバージョン履歴
+// バージョン履歴の合計サイズの上限（localStorage の容量（約5MB）をファイルと分け合うため）
+const MAX_SNAPSHOTS_BYTES = 1024 * 1024;
+
+/**
+ * 新しいファイルIDを生成（タイムスタンプ + ランダム値）
+ * @returns ファイルID
+ */
+export function generateFileId(): string {
+  return `file-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
 
 /**
  * テキストから最初の行を取得してファイル名とする
@@ -19,186 +31,211 @@ export function extractFileName(text: string): string {
 }
 
 /**
- * localStorageからデータを読み込む
- * @returns 保存されたデータ、または null
+ * 保存形式の現在のバージョン
+ * - 0: 単一ファイル（{ rawText, lastModified, theme }）
+ * - 1: 複数ファイル（{ files, currentFileId, theme }）
+ * - 2: schemaVersion を記録し、ファイルIDの重複・欠けた項目を補正済み
  */
-export function loadFromStorage(): StorageData | null {
-  if (typeof window === 'undefined') {
-    return null;
-  }
+export const CURRENT_SCHEMA_VERSION = 2;
 
-  try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (!data) {
-      return null;
-    }
+type RawStorageData = Record<string, unknown>;
 
-    const parsed = JSON.parse(data);
+/**
+ * 保存形式のマイグレーション（from のバージョンから from + 1 へ変換）
+ */
+interface StorageMigration {
+  from: number;
+  migrate: (data: RawStorageData) => RawStorageData;
+}
 
-    // 旧形式のデータをマイグレーション
-    if (parsed.rawText && !parsed.files) {
-      const fileId = `file-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const fileName = extractFileName(parsed.rawText);
+/**
+ * マイグレーションの一覧（バージョン順）
+ * 保存形式を変更する場合は、CURRENT_SCHEMA_VERSION を上げてここに変換を追加する
+ */
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    // 単一ファイルの形式を複数ファイルの形式に変換
+    from: 0,
+    migrate: (data) => {
+      const rawText = typeof data.rawText === 'string' ? data.rawText : '';
+      const fileId = generateFileId();
       return {
         files: [
           {
             id: fileId,
-            name: fileName,
-            rawText: parsed.rawText,
-            lastModified: parsed.lastModified || new Date().toISOString(),
+            name: extractFileName(rawText),
+            rawText,
+            lastModified: typeof data.lastModified === 'string' ? data.lastModified : new Date().toISOString(),
           },
         ],
         currentFileId: fileId,
-        theme: parsed.theme || 'light',
+        theme: data.theme,
       };
-    }
-
-    const storageData = parsed as StorageData;
-
-    // ファイルIDの重複をチェックして修正
-    if (storageData.files) {
+    },
+  },
+  {
+    // ファイルIDの重複を修正し、欠けた項目を補う
+    from: 1,
+    migrate: (data) => {
       const seenIds = new Set<string>();
-      const uniqueFiles: FileData[] = [];
-
-      storageData.files.forEach((file) => {
-        if (seenIds.has(file.id)) {
-          // 重複IDの場合、新しいIDを生成
-          const newId = `file-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-          uniqueFiles.push({ ...file, id: newId });
-
-          // 現在のファイルIDが重複していた場合は更新
-          if (storageData.currentFileId === file.id) {
-            storageData.currentFileId = newId;
-          }
-        } else {
-          seenIds.add(file.id);
-          uniqueFiles.push(file);
-        }
+      const files = (Array.isArray(data.files) ? data.files : []).map((file: Partial<FileData>) => {
+        const rawText = typeof file?.rawText === 'string' ? file.rawText : '';
+        // 重複・欠けたIDには新しいIDを生成（最初のファイルは元のIDのまま）
+        const id = typeof file?.id === 'string' && file.id && !seenIds.has(file.id) ? file.id : generateFileId();
+        seenIds.add(id);
+        return {
+          ...file,
+          id,
+          name: extractFileName(rawText),
+          rawText,
+          lastModified: typeof file?.lastModified === 'string' ? file.lastModified : new Date().toISOString(),
+        };
       });
+      return { ...data, files };
+    },
+  },
+];
 
-      storageData.files = uniqueFiles;
-
-      // 重複があった場合は修正後のデータを保存
-      if (uniqueFiles.length !== storageData.files.length || seenIds.size < parsed.files.length) {
-        saveToStorage(storageData);
-      }
-    }
-
-    return storageData;
-  } catch (error) {
-    console.error('Failed to load from localStorage:', error);
-    return null;
-  }
+/**
+ * 保存されたデータのバージョンを判定
+ * @param data 保存されたデータ
+ * @returns バージョン
+ */
+function detectSchemaVersion(data: RawStorageData): number {
+  if (typeof data.schemaVersion === 'number') return data.schemaVersion;
+  if (Array.isArray(data.files)) return 1;
+  if (typeof data.rawText === 'string') return 0;
+  throw new Error('保存されたデータの形式を判別できません');
 }
 
 /**
- * localStorageにデータを保存する
- * @param data 保存するデータ
+ * マイグレーション後のデータを検証
+ * @param data マイグレーション後のデータ
+ * @returns 検証済みのデータ
  */
-export function saveToStorage(data: StorageData): void {
-  if (typeof window === 'undefined') {
-    return;
+function validateStorageData(data: RawStorageData): StorageData {
+  if (!Array.isArray(data.files)) {
+    throw new Error('保存されたデータにファイルの一覧がありません');
   }
-
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-  } catch (error) {
-    console.error('Failed to save to localStorage:', error);
+  const files = data.files as FileData[];
+  files.forEach((file, index) => {
+    if (typeof file?.id !== 'string' || typeof file.rawText !== 'string' || typeof file.name !== 'string') {
+      throw new Error(`保存されたデータの ${index + 1} 番目のファイルが不正です`);
+    }
+  });
+  if (new Set(files.map((file) => file.id)).size !== files.length) {
+    throw new Error('保存されたデータにIDの重複したファイルがあります');
   }
+
+  const currentFileId =
+    typeof data.currentFileId === 'string' && files.some((file) => file.id === data.currentFileId)
+      ? data.currentFileId
+      : files.find((file) => !file.deletedAt)?.id ?? '';
+  return {
+    files,
+    currentFileId,
+    theme: data.theme === 'dark' ? 'dark' : 'light',
+    trashRetentionDays: typeof data.trashRetentionDays === 'number' ? data.trashRetentionDays : undefined,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  };
 }
 
 /**
- * 特定のファイルのテキストを更新して保存
- * @param fileId ファイルID
- * @param rawText 更新するテキスト
+ * 保存されたデータを現在の形式に変換して検証
+ * @param raw 保存されたデータ（JSONを解析したもの）
+ * @returns 変換後のデータと、変換前のバージョン
  */
-export function updateFileText(fileId: string, rawText: string): void {
-  const data = loadFromStorage();
-  if (!data) return;
+export function migrateStorageData(raw: unknown): { data: StorageData; fromVersion: number } {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('保存されたデータの形式を判別できません');
+  }
 
-  const fileIndex = data.files.findIndex((f) => f.id === fileId);
-  if (fileIndex === -1) return;
+  let data = raw as RawStorageData;
+  const fromVersion = detectSchemaVersion(data);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`新しいバージョンのアプリで保存されたデータです（バージョン ${fromVersion}）`);
+  }
 
-  data.files[fileIndex].rawText = rawText;
-  data.files[fileIndex].name = extractFileName(rawText);
-  data.files[fileIndex].lastModified = new Date().toISOString();
+  STORAGE_MIGRATIONS.filter((migration) => migration.from >= fromVersion).forEach((migration) => {
+    data = migration.migrate(data);
+  });
 
-  saveToStorage(data);
+  return { data: validateStorageData(data), fromVersion };
 }
 
 /**
- * 新しいファイルを作成
- * @param rawText ファイルのテキスト
- * @returns 作成されたファイルID
+ * localStorageに元のデータを退避
+ * @param raw 元のデータ（JSON文字列）
+ * @param label 退避の理由（キーの末尾に付ける）
+ * @returns 退避できた場合は true
  */
-export function createNewFile(rawText: string = ''): string {
-  const data = loadFromStorage();
-  // より一意性の高いIDを生成（タイムスタンプ + ランダム値）
-  const fileId = `file-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-  const fileName = extractFileName(rawText || getDefaultText());
-
-  const newFile: FileData = {
-    id: fileId,
-    name: fileName,
-    rawText: rawText || getDefaultText(),
-    lastModified: new Date().toISOString(),
-  };
-
-  if (data) {
-    data.files.push(newFile);
-    data.currentFileId = fileId;
-    saveToStorage(data);
-  } else {
-    saveToStorage({
-      files: [newFile],
-      currentFileId: fileId,
-      theme: 'light',
-    });
+function backupRawData(raw: string, label: string): boolean {
+  try {
+    localStorage.setItem(`${BACKUP_KEY_PREFIX}${label}`, raw);
+    return true;
+  } catch (error) {
+    console.error('Failed to back up storage data:', error);
+    return false;
   }
-
-  return fileId;
 }
 
 /**
- * ファイルを削除
- * @param fileId 削除するファイルID
+ * localStorageからデータを読み込む
+ * 古い形式のデータは現在の形式に変換し、変換前のデータを退避してから保存し直す
+ * 読み込めないデータは退避してから削除し、退避できない場合は上書きされないように例外を投げる
+ * 新しいバージョンのアプリで保存されたデータは、そのまま残して例外を投げる（IndexedDB と同じく書き込みを止める）
+ * @returns 保存されたデータ、または null
  */
-export function deleteFile(fileId: string): void {
-  const data = loadFromStorage();
-  if (!data) return;
+export function loadFromStorage(): StorageData | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
 
-  data.files = data.files.filter((f) => f.id !== fileId);
+  let raw: string | null = null;
+  let isNewerVersion = false;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
 
-  // 削除したファイルが現在のファイルだった場合、別のファイルを選択
-  if (data.currentFileId === fileId) {
-    if (data.files.length > 0) {
-      data.currentFileId = data.files[0].id;
-    } else {
-      // ファイルがなくなった場合は新規作成
-      const newFileId = `file-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      data.files.push({
-        id: newFileId,
-        name: '新規ファイル',
-        rawText: getDefaultText(),
-        lastModified: new Date().toISOString(),
-      });
-      data.currentFileId = newFileId;
+    const parsed = JSON.parse(raw) as RawStorageData | null;
+    isNewerVersion = typeof parsed?.schemaVersion === 'number' && parsed.schemaVersion > CURRENT_SCHEMA_VERSION;
+    const { data, fromVersion } = migrateStorageData(parsed);
+    if (fromVersion !== CURRENT_SCHEMA_VERSION && backupRawData(raw, `v${fromVersion}`)) {
+      saveToStorage(data);
     }
+    return data;
+  } catch (error) {
+    console.error('Failed to load from localStorage:', error);
+    if (isNewerVersion) {
+      throw error;
+    }
+    // 読み込めなかったデータは、上書きされる前に退避する
+    if (raw) {
+      if (!backupRawData(raw, `unreadable-${Date.now()}`)) {
+        throw new Error('保存されたデータを読み込めず、退避もできませんでした');
+      }
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    return null;
   }
-
-  saveToStorage(data);
 }
 
 /**
- * 現在選択中のファイルIDを更新
- * @param fileId ファイルID
+ * localStorageにデータを保存する
+ * @param data 保存するデータ
  */
-export function setCurrentFile(fileId: string): void {
-  const data = loadFromStorage();
-  if (!data) return;
+export function saveToStorage(data: StorageData): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
 
-  data.currentFileId = fileId;
-  saveToStorage(data);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION }));
+  } catch (error) {
+    console.error('Failed to save to localStorage:', error);
+  }
 }
 
 /**
@@ -227,3 +264,130 @@ export function getDefaultText(): string {
 ルートノード2
 \t子ノード2-1`;
 }
+
+/**
+ * localStorageにデータを書き込む（容量不足などの失敗は例外として呼び出し元に伝える）
+ * @param data 保存するデータ
+ */
+function writeStorage(data: StorageData): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION }));
+}
+
+/**
+ * localStorageからバージョン履歴を読み込む
+ * @returns ファイルIDごとのスナップショット
+ */
+function loadSnapshotMap(): Record<string, FileSnapshot[]> {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+  const data = localStorage.getItem(SNAPSHOTS_KEY);
+  return data ? (JSON.parse(data) as Record<string, FileSnapshot[]>) : {};
+}
+
+/**
+ * localStorageにバージョン履歴を書き込む
+ * @param snapshots ファイルIDごとのスナップショット
+ */
+function writeSnapshotMap(snapshots: Record<string, FileSnapshot[]>): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(snapshots));
+}
+
+/**
+ * バージョン履歴を容量の上限に収めて書き込む
+ * 上限を超える場合や書き込みに失敗した場合は、全ファイルを通して古いスナップショットから削除する
+ * @param snapshots ファイルIDごとのスナップショット
+ */
+function writeSnapshotMapWithinQuota(snapshots: Record<string, FileSnapshot[]>): void {
+  const oldestFirst = Object.values(snapshots)
+    .flat()
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const removeOldest = () => {
+    const oldest = oldestFirst.shift();
+    if (!oldest) return;
+    snapshots[oldest.fileId] = snapshots[oldest.fileId].filter((s) => s.id !== oldest.id);
+    if (snapshots[oldest.fileId].length === 0) delete snapshots[oldest.fileId];
+  };
+
+  while (oldestFirst.length > 0 && new TextEncoder().encode(JSON.stringify(snapshots)).length > MAX_SNAPSHOTS_BYTES) {
+    removeOldest();
+  }
+  for (;;) {
+    try {
+      writeSnapshotMap(snapshots);
+      return;
+    } catch (error) {
+      if (oldestFirst.length === 0) throw error;
+      removeOldest();
+    }
+  }
+}
+
+/**
+ * localStorage を使うストレージ（全ファイルを1つのJSONとして保存）
+ * IndexedDB が使えない環境で使用する
+ */
+export const localStorageBackend: StorageBackend = {
+  name: 'localStorage',
+
+  async load() {
+    return loadFromStorage();
+  },
+
+  async saveFile(file) {
+    const saved = loadFromStorage();
+    if (!saved && localStorage.getItem(STORAGE_KEY)) {
+      // 読み込めないデータを新しいデータで上書きしない
+      throw new Error('保存されたデータを読み込めないため保存できません');
+    }
+    const data = saved ?? { files: [], currentFileId: file.id, theme: 'light' };
+    const index = data.files.findIndex((f) => f.id === file.id);
+    if (index === -1) {
+      data.files.push(file);
+    } else {
+      data.files[index] = file;
+    }
+    writeStorage(data);
+  },
+
+  async deleteFile(fileId) {
+    const data = loadFromStorage();
+    if (!data) return;
+    data.files = data.files.filter((f) => f.id !== fileId);
+    writeStorage(data);
+
+    const snapshots = loadSnapshotMap();
+    if (snapshots[fileId]) {
+      delete snapshots[fileId];
+      writeSnapshotMap(snapshots);
+    }
+  },
+
+  async saveSettings(settings) {
+    const data = loadFromStorage();
+    if (!data) return;
+    writeStorage({ ...data, ...settings });
+  },
+
+  async saveAll(data) {
+    writeStorage(data);
+  },
+
+  async loadSnapshots(fileId) {
+    return [...(loadSnapshotMap()[fileId] ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async saveSnapshot(snapshot) {
+    const snapshots = loadSnapshotMap();
+    const fileSnapshots = [...(snapshots[snapshot.fileId] ?? []), snapshot];
+    const expired = new Set(getExpiredSnapshots(fileSnapshots).map((s) => s.id));
+    snapshots[snapshot.fileId] = fileSnapshots.filter((s) => !expired.has(s.id));
+    writeSnapshotMapWithinQuota(snapshots);
+  },
+};
@@ -0,0 +1,102 @@
+import { FileData, StorageData, StorageLoadResult } from '@/types';
+import {
+  localStorageBackend,
+  loadFromStorage,
+  clearStorage,
+  extractFileName,
+  generateFileId,
+} from './localStorage';
+import { createIndexedDbBackend, openDatabase } from './indexedDbStorage';
+
+/**
+ * 使用するストレージを選択し、保存されたデータを読み込む
+ * IndexedDB が使える場合はそれを使い、初回は localStorage のデータを移行する
+ * localStorage に切り替えるのは IndexedDB を開けない場合のみで、読み込み・変換の失敗は呼び出し元に伝える
+ * （別のストレージに切り替えると、保存されたデータが見えないまま別の場所に書き込まれるため）
+ * @param onBlocked 他のタブの古い接続で IndexedDB を開けずに待っているときに呼ばれる関数
+ * @returns ストレージと読み込んだデータ
+ */
+export async function createStorageBackend(onBlocked?: () => void): Promise<StorageLoadResult> {
+  if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+    return { backend: localStorageBackend, data: loadFromStorage() };
+  }
+
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase(onBlocked);
+  } catch (error) {
+    console.error('Failed to open IndexedDB, falling back to localStorage:', error);
+    return { backend: localStorageBackend, data: loadFromStorage() };
+  }
+
+  const backend = createIndexedDbBackend(db);
+  const existing = await backend.load();
+  if (existing) {
+    return { backend, data: existing };
+  }
+
+  // localStorage に保存されていたデータを移行し、移行後は削除する
+  // 読み込めない場合は localStorage のデータに触れずに IndexedDB を使い始める
+  let legacy: StorageData | null = null;
+  try {
+    legacy = loadFromStorage();
+  } catch (error) {
+    console.error('Failed to migrate data from localStorage:', error);
+  }
+  if (legacy && legacy.files.length > 0) {
+    await backend.saveAll(legacy);
+    clearStorage();
+    return { backend, data: legacy };
+  }
+  return { backend, data: null };
+}
+
+/**
+ * 新しいファイルのデータを作成
+ * @param rawText ファイルのテキスト
+ * @returns ファイルのデータ
+ */
+export function createFileData(rawText: string): FileData {
+  return {
+    id: generateFileId(),
+    name: extractFileName(rawText),
+    rawText,
+    lastModified: new Date().toISOString(),
+  };
+}
+
+/**
+ * ファイルのテキストを更新（ファイル名・更新日時も更新）
+ * @param file ファイルのデータ
+ * @param rawText 更新するテキスト
+ * @returns 更新後のファイルのデータ
+ */
+export function withFileText(file: FileData, rawText: string): FileData {
+  return {
+    ...file,
+    name: extractFileName(rawText),
+    rawText,
+    lastModified: new Date().toISOString(),
+  };
+}
+
+/**
+ * 保存するファイルのおおよそのサイズ（バイト数）を求める
+ * @param file ファイルのデータ
+ * @returns バイト数
+ */
+export function getFileSize(file: FileData): number {
+  return new TextEncoder().encode(JSON.stringify(file)).length;
+}
+
+/**
+ * 書き込みエラーを表示用のメッセージに変換
+ * @param error 発生したエラー
+ * @returns メッセージ
+ */
+export function describeStorageError(error: unknown): string {
+  if (error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')) {
+    return '保存容量が不足しています。不要なファイルを削除してから再試行してください';
+  }
+  return `保存に失敗しました: ${error instanceof Error ? error.message : String(error)}`;
+}
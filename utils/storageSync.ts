@@ -0,0 +1,62 @@
+import { FileData } from '@/types';
+
+const CHANNEL_NAME = 'tree-editor-sync';
+const SYNC_KEY = 'tree-editor-sync'; // BroadcastChannel が使えない環境で storage イベントに使うキー
+
+/**
+ * 他のタブに通知するストレージの変更
+ * - file-saved: ファイルを保存した（basedOn は編集元のバージョンの更新日時。新規ファイルは null）
+ * - file-deleted: ファイルを削除した
+ * - workspace-replaced: 復元などでワークスペース全体を置き換えた
+ */
+export type StorageSyncMessage =
+  | { type: 'file-saved'; file: FileData; basedOn: string | null }
+  | { type: 'file-deleted'; fileId: string }
+  | { type: 'workspace-replaced' };
+
+/**
+ * タブ間の同期
+ */
+export interface StorageSync {
+  notify(message: StorageSyncMessage): void;
+  close(): void;
+}
+
+/**
+ * 他のタブとの同期を開始
+ * BroadcastChannel が使えない環境では localStorage の storage イベントで代用する
+ * @param onMessage 他のタブから変更が届いたときの処理
+ * @returns 同期
+ */
+export function createStorageSync(onMessage: (message: StorageSyncMessage) => void): StorageSync {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<StorageSyncMessage>) => onMessage(e.data);
+    return {
+      notify: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  // storage イベントは書き込んだタブ以外で発生する
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== SYNC_KEY || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue) as StorageSyncMessage);
+    } catch (error) {
+      console.error('Failed to parse sync message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    notify: (message) => {
+      try {
+        localStorage.setItem(SYNC_KEY, JSON.stringify(message));
+        localStorage.removeItem(SYNC_KEY);
+      } catch (error) {
+        console.error('Failed to send sync message:', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
@@ -0,0 +1,31 @@
+import { FileData } from '@/types';
+
+/**
+ * ゴミ箱のファイルを自動で削除するまでの日数（既定値）
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ゴミ箱のファイルが自動で削除されるまでの残り日数
+ * @param file ゴミ箱のファイル
+ * @param retentionDays 保持する日数
+ * @param now 現在時刻（ミリ秒）
+ * @returns 残り日数（0 以下は削除対象）
+ */
+export function getTrashDaysLeft(file: FileData, retentionDays: number, now: number = Date.now()): number {
+  const deletedAt = file.deletedAt ? new Date(file.deletedAt).getTime() : now;
+  return Math.ceil((deletedAt + retentionDays * DAY_MS - now) / DAY_MS);
+}
+
+/**
+ * 保持期間を過ぎたゴミ箱のファイルを求める
+ * @param trash ゴミ箱のファイル
+ * @param retentionDays 保持する日数
+ * @param now 現在時刻（ミリ秒）
+ * @returns 削除するファイル
+ */
+export function getExpiredTrash(trash: FileData[], retentionDays: number, now: number = Date.now()): FileData[] {
+  return trash.filter((file) => getTrashDaysLeft(file, retentionDays, now) <= 0);
+}
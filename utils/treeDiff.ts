@@ -0,0 +1,117 @@
+import { TreeNode } from '@/types';
+
+/**
+ * 差分の種類
+ * - same: 変わらないノード（変更のあるノードの祖先として表示）
+ * - added: 追加されたノード
+ * - removed: 削除されたノード
+ * - changed: テキストが変わったノード
+ */
+export type TreeDiffType = 'same' | 'added' | 'removed' | 'changed';
+
+/**
+ * 差分の1行
+ */
+export interface TreeDiffLine {
+  type: TreeDiffType;
+  depth: number;
+  text: string;
+  previousText?: string; // changed の場合の変更前のテキスト
+}
+
+/**
+ * ツリーの差分
+ */
+export interface TreeDiffResult {
+  lines: TreeDiffLine[];
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * 兄弟ノードの一覧をテキストで対応付ける（最長共通部分列）
+ * @param before 変更前の兄弟ノード
+ * @param after 変更後の兄弟ノード
+ * @returns 対応するノードの位置の組（先頭から順）
+ */
+function matchSiblings(before: TreeNode[], after: TreeNode[]): [number, number][] {
+  const table: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i][j] =
+        before[i].text === after[j].text ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i].text === after[j].text) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * 2つのツリーの差分を求める
+ * 兄弟ノードをテキストで対応付け、対応しないノードの間で位置の揃うものは「変更」として子孫も比較する
+ * 変わらないノードは、変更のある子孫を持つ場合のみ含める
+ * @param before 変更前のツリー
+ * @param after 変更後のツリー
+ * @returns 差分
+ */
+export function diffTrees(before: TreeNode[], after: TreeNode[]): TreeDiffResult {
+  const result: TreeDiffResult = { lines: [], added: 0, removed: 0, changed: 0 };
+
+  // サブツリー全体を追加・削除として出力
+  const emitSubtree = (node: TreeNode, depth: number, type: 'added' | 'removed', lines: TreeDiffLine[]) => {
+    lines.push({ type, depth, text: node.text });
+    result[type]++;
+    node.children.forEach((child) => emitSubtree(child, depth + 1, type, lines));
+  };
+
+  const diffSiblings = (beforeNodes: TreeNode[], afterNodes: TreeNode[], depth: number): TreeDiffLine[] => {
+    const lines: TreeDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+
+    // 対応するノードまでの、対応しないノードを出力
+    const flushUnmatched = (untilBefore: number, untilAfter: number) => {
+      const removed = beforeNodes.slice(i, untilBefore);
+      const added = afterNodes.slice(j, untilAfter);
+      const pairedCount = Math.min(removed.length, added.length);
+      for (let k = 0; k < pairedCount; k++) {
+        lines.push({ type: 'changed', depth, text: added[k].text, previousText: removed[k].text });
+        result.changed++;
+        lines.push(...diffSiblings(removed[k].children, added[k].children, depth + 1));
+      }
+      removed.slice(pairedCount).forEach((node) => emitSubtree(node, depth, 'removed', lines));
+      added.slice(pairedCount).forEach((node) => emitSubtree(node, depth, 'added', lines));
+    };
+
+    matchSiblings(beforeNodes, afterNodes).forEach(([matchedBefore, matchedAfter]) => {
+      flushUnmatched(matchedBefore, matchedAfter);
+      const childLines = diffSiblings(beforeNodes[matchedBefore].children, afterNodes[matchedAfter].children, depth + 1);
+      if (childLines.length > 0) {
+        lines.push({ type: 'same', depth, text: afterNodes[matchedAfter].text }, ...childLines);
+      }
+      i = matchedBefore + 1;
+      j = matchedAfter + 1;
+    });
+    flushUnmatched(beforeNodes.length, afterNodes.length);
+
+    return lines;
+  };
+
+  result.lines = diffSiblings(before, after, 0);
+  return result;
+}
@@ -1,82 +1,550 @@
-import { TreeNode } from '@/types';
+import { TreeNode, IndentStyle, ParseDiagnostic } from '@/types';
+
+/**
+ * タブインデントの既定値
+ */
+export const TAB_INDENT: IndentStyle = {
+  unit: 'tab',
+  width: 4,
+  mixed: false,
+  ambiguousLines: [],
+};
+
+/**
+ * 行頭の空白（タブ・スペース）を取得
+ * @param line テキスト行
+ * @returns 行頭の空白文字列
+ */
+function getLeadingWhitespace(line: string): string {
+  return line.match(/^[\t ]*/)![0];
+}
+
+/**
+ * テキスト全体からインデント方式を判定
+ * スペースの幅は、全ての行が4の倍数なら4、それ以外は2とする
+ * タブとスペースが混在する場合は多い方を基本の方式とする
+ * @param text インデント付きテキスト
+ * @returns 判定したインデント方式
+ */
+export function detectIndentStyle(text: string): IndentStyle {
+  let tabLines = 0;
+  let spaceLines = 0;
+  let mixed = false;
+  const spaceCounts: number[] = [];
+
+  text.split('\n').forEach((line) => {
+    if (line.trim() === '') return;
+    const leading = getLeadingWhitespace(line);
+    if (leading === '') return;
+
+    const spaces = leading.replace(/\t/g, '').length;
+    const hasTab = leading.includes('\t');
+    if (hasTab && spaces > 0) mixed = true;
+    if (hasTab) tabLines++;
+    if (spaces > 0) {
+      spaceLines++;
+      spaceCounts.push(spaces);
+    }
+  });
+
+  if (tabLines > 0 && spaceLines > 0) mixed = true;
+
+  const width = spaceCounts.every((count) => count % 4 === 0) ? 4 : 2;
+  const style: IndentStyle = {
+    unit: spaceLines > tabLines ? 'space' : 'tab',
+    width,
+    mixed,
+    ambiguousLines: [],
+  };
+
+  // スペース数が幅で割り切れない行は階層が曖昧
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') return;
+    const spaces = getLeadingWhitespace(line).replace(/\t/g, '').length;
+    if (spaces % width !== 0) {
+      style.ambiguousLines.push(index + 1);
+    }
+  });
+
+  return style;
+}
 
 /**
  * テキストからインデント深度を計算
  * @param line テキスト行
- * @returns インデント深度（タブ1つ = 深度1）
+ * @param style インデント方式（省略時はタブ）
+ * @returns インデント深度（タブ1つ、またはスペース width 個 = 深度1）
  */
-export function getIndentDepth(line: string): number {
-  let depth = 0;
-  for (let i = 0; i < line.length; i++) {
-    if (line[i] === '\t') {
-      depth++;
-    } else {
-      break;
+export function getIndentDepth(line: string, style: IndentStyle = TAB_INDENT): number {
+  const leading = getLeadingWhitespace(line);
+  const spaces = leading.replace(/\t/g, '').length;
+  const tabs = leading.length - spaces;
+  return tabs + Math.floor(spaces / style.width);
+}
+
+/**
+ * インデント方式から1階層分のインデント文字列を取得
+ * @param style インデント方式
+ * @returns インデント文字列
+ */
+export function getIndentString(style: Pick<IndentStyle, 'unit' | 'width'>): string {
+  return style.unit === 'space' ? ' '.repeat(style.width) : '\t';
+}
+
+/**
+ * 新しいノードIDを生成
+ * @returns 一意なノードID
+ */
+export function generateNodeId(): string {
+  return `node-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * 再パースしたツリーに以前のツリーのID・展開状態・付加情報を引き継ぐ
+ * 1. 同じ親の下で同じテキスト（同名は出現順）のノードを対応付け
+ * 2. 残ったノードは同じ親の下の残った旧ノードと順に対応付け（テキスト編集）
+ * 3. それでも残ったノードはツリー全体から同じテキストのノードを探す（移動）
+ * @param nodes 新しくパースしたツリー（IDを書き換える）
+ * @param previousNodes 以前のツリー
+ */
+function reconcileNodeIds(nodes: TreeNode[], previousNodes: TreeNode[]): void {
+  const usedIds = new Set<string>();
+  const unmatched: TreeNode[] = [];
+
+  const inherit = (node: TreeNode, prev: TreeNode) => {
+    node.id = prev.id;
+    node.isExpanded = prev.isExpanded;
+    if (prev.metadata) node.metadata = prev.metadata;
+    usedIds.add(prev.id);
+  };
+
+  const matchSiblings = (newList: TreeNode[], oldList: TreeNode[]) => {
+    const pairs = new Map<TreeNode, TreeNode>();
+
+    // テキストごとに旧ノードを出現順にまとめる
+    const oldByText = new Map<string, TreeNode[]>();
+    oldList.forEach((prev) => {
+      if (usedIds.has(prev.id)) return;
+      const list = oldByText.get(prev.text) || [];
+      list.push(prev);
+      oldByText.set(prev.text, list);
+    });
+
+    newList.forEach((node) => {
+      const candidates = oldByText.get(node.text);
+      const prev = candidates?.shift();
+      if (prev) {
+        pairs.set(node, prev);
+        inherit(node, prev);
+      }
+    });
+
+    // テキストで対応しなかったノード同士を順に対応付ける（並べ替えと同時に編集した場合も対応する）
+    const unusedOld = oldList.filter((prev) => !usedIds.has(prev.id));
+    newList.forEach((node) => {
+      if (pairs.has(node)) return;
+      const prev = unusedOld.shift();
+      if (prev) {
+        pairs.set(node, prev);
+        inherit(node, prev);
+      }
+    });
+
+    newList.forEach((node) => {
+      const prev = pairs.get(node);
+      if (prev) {
+        matchSiblings(node.children, prev.children);
+      } else {
+        unmatched.push(node);
+        matchSiblings(node.children, []);
+      }
+    });
+  };
+
+  matchSiblings(nodes, previousNodes);
+
+  if (unmatched.length === 0) return;
+
+  // 未使用の旧ノードをテキストで索引化
+  const remaining = new Map<string, TreeNode[]>();
+  const collect = (list: TreeNode[]) => {
+    list.forEach((prev) => {
+      if (!usedIds.has(prev.id)) {
+        const candidates = remaining.get(prev.text) || [];
+        candidates.push(prev);
+        remaining.set(prev.text, candidates);
+      }
+      collect(prev.children);
+    });
+  };
+  collect(previousNodes);
+
+  unmatched.forEach((node) => {
+    const prev = remaining.get(node.text)?.shift();
+    if (prev && !usedIds.has(prev.id)) {
+      inherit(node, prev);
     }
-  }
-  return depth;
+  });
 }
 
 /**
- * インデント付きテキストをツリー構造に変換
+ * 継続行（複数行テキストの2行目以降）の接頭辞
+ * ノードと同じインデントの後に `|` を置き、続く空白1つを区切りとして読み飛ばす
+ */
+const CONTINUATION_MARKER = '|';
+
+/**
+ * 行が直前のノードの継続行かどうか
+ * ノードと異なるインデントの `|` 行（子ノードとして書かれた表の行など）は継続行ではなく通常のノードとして扱う
+ * @param content インデントを除いた行の内容
+ * @param leading 行のインデント
+ * @param nodeIndent 直前のノードのインデント
+ * @returns 継続行なら true
+ */
+function isContinuationLine(content: string, leading: string, nodeIndent: string): boolean {
+  return content.startsWith(CONTINUATION_MARKER) && leading === nodeIndent;
+}
+
+/**
+ * 継続行から本文を取り出す
+ * @param content インデントを除いた行の内容
+ * @returns 継続行の本文
+ */
+function decodeContinuationLine(content: string): string {
+  const body = content.substring(CONTINUATION_MARKER.length);
+  return body.startsWith(' ') ? body.substring(1) : body;
+}
+
+/**
+ * ノードの1行目をエスケープ解除
+ * `\` 単独は空行、`\|` `\\` は先頭の `\` を取り除く
+ * @param content インデントを除いた行の内容
+ * @returns ノードの1行目のテキスト
+ */
+function decodeFirstLine(content: string): string {
+  if (content === '\\') return '';
+  if (/^\\[\\|]/.test(content)) return content.substring(1);
+  return content;
+}
+
+/**
+ * ノードの1行目をエスケープ
+ * 継続行と誤認される `|` 始まりや、エスケープと衝突する `\` 始まりに `\` を付ける
+ * @param firstLine ノードの1行目のテキスト
+ * @param hasContinuation 2行目以降があるか
+ * @returns 書き出す1行目
+ */
+function encodeFirstLine(firstLine: string, hasContinuation: boolean): string {
+  if (firstLine === '') return hasContinuation ? '\\' : '';
+  if (/^(\||\\[\\|]|\\$)/.test(firstLine)) return `\\${firstLine}`;
+  return firstLine;
+}
+
+// ノードのない文書（空行・空白のみ）の元のテキスト
+// 書式情報を持たせるノードがないため、パース結果の配列ごとに保持して書き戻し時に出力する
+const emptyDocumentTrivia = new WeakMap<TreeNode[], string>();
+
+/**
+ * インデント付きテキストをパースしてツリーと診断結果を返す
+ * 親より深すぎる行は親の1階層下に補正し、元の深度との差を診断として報告する
  * @param text インデント付きテキスト
- * @returns TreeNodeの配列
+ * @param previousNodes 以前のツリー（省略可）
+ * @returns TreeNodeの配列と診断結果
  */
-export function parseTextToTree(text: string): TreeNode[] {
-  const lines = text.split('\n').filter((line) => line.trim() !== '');
+export function parseDocument(
+  text: string,
+  previousNodes?: TreeNode[]
+): { nodes: TreeNode[]; diagnostics: ParseDiagnostic[] } {
+  const indentStyle = detectIndentStyle(text);
+  const ambiguousLines = new Set(indentStyle.ambiguousLines);
+  const lines = text.split('\n');
   const nodes: TreeNode[] = [];
-  const stack: TreeNode[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  // 親子判定は元のインデント深度で行う
+  // continuationIndent: 継続行として連結する行のインデント（`|` で始まる行のノードは連結しない）
+  const stack: { node: TreeNode; rawDepth: number; continuationIndent: string | null }[] = [];
+  let blankLines: string[] = [];
 
   lines.forEach((line, index) => {
-    const depth = getIndentDepth(line);
-    const text = line.replace(/^\t+/, '').trim();
+    const lineNumber = index + 1;
+
+    // 空行は次のノードの書式情報として保持
+    if (line.trim() === '') {
+      blankLines.push(line);
+      return;
+    }
+
+    const content = line.replace(/^[\t ]+/, '');
+    const leading = line.substring(0, line.length - content.length);
+
+    // 継続行は直前のノードのテキストに改行で連結
+    const last = stack.length > 0 ? stack[stack.length - 1] : null;
+    if (last && last.continuationIndent !== null && isContinuationLine(content, leading, last.continuationIndent)) {
+      const previous = last.node;
+      previous.text += `\n${decodeContinuationLine(content.replace(/\r$/, ''))}`;
+      previous.source!.lines.push(...blankLines, line);
+      previous.source!.text = previous.text;
+      blankLines = [];
+      return;
+    }
+    if (!last && content.startsWith(CONTINUATION_MARKER)) {
+      diagnostics.push({
+        line: lineNumber,
+        type: 'orphan-continuation',
+        message: '継続行（|）の前にノードがありません',
+      });
+    }
+
+    if (ambiguousLines.has(lineNumber)) {
+      diagnostics.push({
+        line: lineNumber,
+        type: 'ambiguous-indent',
+        message: `スペース${leading.replace(/\t/g, '').length}個のインデントは階層が曖昧です`,
+      });
+    } else if (indentStyle.mixed && leading.includes(indentStyle.unit === 'tab' ? ' ' : '\t')) {
+      diagnostics.push({
+        line: lineNumber,
+        type: 'mixed-indent',
+        message: indentStyle.unit === 'tab' ? 'タブの文書でスペースのインデントが使われています' : 'スペースの文書でタブのインデントが使われています',
+      });
+    }
+
+    const rawDepth = getIndentDepth(line, indentStyle);
+    const text = decodeFirstLine(content.trim());
+
+    // スタックから現在の深度より深いノードを削除
+    while (stack.length > 0 && stack[stack.length - 1].rawDepth >= rawDepth) {
+      stack.pop();
+    }
+
+    const parentEntry = stack.length > 0 ? stack[stack.length - 1] : null;
+    const depth = parentEntry ? parentEntry.node.depth + 1 : 0;
+    if (parentEntry && rawDepth > parentEntry.rawDepth + 1) {
+      diagnostics.push({
+        line: lineNumber,
+        type: 'depth-jump',
+        message: `階層${parentEntry.rawDepth}の次が階層${rawDepth}になっています（階層${depth}として表示）`,
+      });
+    } else if (!parentEntry && rawDepth > 0) {
+      diagnostics.push({
+        line: lineNumber,
+        type: 'orphan-indent',
+        message: `親ノードがないのに階層${rawDepth}になっています（階層0として表示）`,
+      });
+    }
 
     const node: TreeNode = {
-      id: `node-${Date.now()}-${index}`,
+      id: generateNodeId(),
       text,
       depth,
       children: [],
       isExpanded: true,
+      source: {
+        line: lineNumber,
+        lines: [line],
+        text,
+        depth,
+        blankLinesBefore: blankLines,
+        blankLinesAfter: [],
+      },
     };
-
-    // スタックから現在の深度より深いノードを削除
-    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
-      stack.pop();
-    }
+    blankLines = [];
 
     // 親ノードを設定
-    if (stack.length > 0) {
-      const parent = stack[stack.length - 1];
-      node.parent = parent;
-      parent.children.push(node);
+    if (parentEntry) {
+      node.parent = parentEntry.node;
+      parentEntry.node.children.push(node);
     } else {
       // ルートノード
       nodes.push(node);
     }
 
-    stack.push(node);
+    // 書き出し時は `\|` にエスケープするため、`|` で始まる行は表などの `|` を使った行が続く
+    stack.push({ node, rawDepth, continuationIndent: content.startsWith(CONTINUATION_MARKER) ? null : leading });
   });
 
-  return nodes;
+  // 文書末尾の空行（末尾の改行を含む）は最後のノードに持たせる
+  if (stack.length > 0) {
+    stack[stack.length - 1].node.source!.blankLinesAfter = blankLines;
+  } else if (text !== '') {
+    emptyDocumentTrivia.set(nodes, text);
+  }
+
+  if (previousNodes && previousNodes.length > 0) {
+    reconcileNodeIds(nodes, previousNodes);
+  }
+
+  return { nodes, diagnostics };
+}
+
+/**
+ * インデント付きテキストをツリー構造に変換
+ * previousNodes を渡すと、対応するノードのID・展開状態・付加情報を引き継ぐ
+ * @param text インデント付きテキスト
+ * @param previousNodes 以前のツリー（省略可）
+ * @returns TreeNodeの配列
+ */
+export function parseTextToTree(text: string, previousNodes?: TreeNode[]): TreeNode[] {
+  return parseDocument(text, previousNodes).nodes;
+}
+
+/**
+ * 診断で問題のあった行のインデントを補正したテキストを返す
+ * 問題のない行は空行・空白も含めてそのまま残す
+ * @param text インデント付きテキスト
+ * @returns 補正後のテキスト
+ */
+export function normalizeIndentation(text: string): string {
+  const indentStyle = detectIndentStyle(text);
+  const { nodes, diagnostics } = parseDocument(text);
+  const fixLines = new Set(diagnostics.map((d) => d.line));
+
+  // 問題のある行と、元のインデントが補正後の深度と異なる行（補正した行の子孫）は再生成させる
+  const needsFix = (node: TreeNode) =>
+    !!node.source &&
+    (fixLines.has(node.source.line) ||
+      getIndentDepth(node.source.lines[0], indentStyle) !== node.depth);
+
+  const dropSourceLines = (list: TreeNode[]): TreeNode[] =>
+    list.map((node) => ({
+      ...node,
+      source: needsFix(node) ? { ...node.source!, lines: [] } : node.source,
+      children: dropSourceLines(node.children),
+    }));
+
+  return serializeTreeToText(dropSourceLines(nodes), indentStyle);
+}
+
+/**
+ * 展開状態のIDセットをツリーの isExpanded に反映
+ * @param nodes ルートノードの配列
+ * @param expandedIds 展開中のノードIDのセット
+ * @returns isExpanded を更新したTreeNodeの配列
+ */
+export function applyExpandedIds(
+  nodes: TreeNode[],
+  expandedIds: Set<string>
+): TreeNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    isExpanded: expandedIds.has(node.id),
+    children: applyExpandedIds(node.children, expandedIds),
+  }));
+}
+
+/**
+ * 別の文書から取り込んだツリーを挿入
+ * 深さは挿入先に合わせ、既存のIDと重なるノードには新しいIDを割り当てる
+ * 元の文書の書式情報（source）は引き継がない
+ * @param nodes 挿入先のルートノードの配列
+ * @param inserted 取り込むルートノードの配列
+ * @param parentId 子として追加する親ノードのID（null の場合はルートの末尾に追加）
+ * @returns 挿入後のTreeNodeの配列
+ */
+export function insertSubtrees(
+  nodes: TreeNode[],
+  inserted: TreeNode[],
+  parentId: string | null
+): TreeNode[] {
+  const usedIds = new Set<string>();
+  const collectIds = (list: TreeNode[]) => {
+    list.forEach((node) => {
+      usedIds.add(node.id);
+      collectIds(node.children);
+    });
+  };
+  collectIds(nodes);
+
+  const copy = (node: TreeNode, depth: number, parent?: TreeNode): TreeNode => {
+    const id = usedIds.has(node.id) ? generateNodeId() : node.id;
+    usedIds.add(id);
+    const copied: TreeNode = {
+      id,
+      text: node.text,
+      depth,
+      children: [],
+      isExpanded: node.isExpanded,
+      parent,
+    };
+    if (node.metadata) copied.metadata = node.metadata;
+    copied.children = node.children.map((child) => copy(child, depth + 1, copied));
+    return copied;
+  };
+
+  if (parentId === null) {
+    return [...nodes, ...inserted.map((node) => copy(node, 0))];
+  }
+
+  const insertInto = (list: TreeNode[]): TreeNode[] =>
+    list.map((node) => {
+      if (node.id === parentId) {
+        const updated: TreeNode = { ...node, isExpanded: true };
+        updated.children = [
+          ...node.children,
+          ...inserted.map((child) => copy(child, node.depth + 1, updated)),
+        ];
+        return updated;
+      }
+      return node.children.length > 0 ? { ...node, children: insertInto(node.children) } : node;
+    });
+  return insertInto(nodes);
 }
 
 /**
  * ツリー構造をインデント付きテキストに変換
+ * 編集されていないノードは空行・空白も含めて元の行を書き戻す
+ * 空行・空白のみの文書をパースした配列は、元のテキストをそのまま書き戻す
  * @param nodes TreeNodeの配列
+ * @param indentStyle 書き出すインデント方式（省略時はタブ）
  * @returns インデント付きテキスト
  */
-export function serializeTreeToText(nodes: TreeNode[]): string {
+export function serializeTreeToText(
+  nodes: TreeNode[],
+  indentStyle: Pick<IndentStyle, 'unit' | 'width'> = TAB_INDENT
+): string {
+  if (nodes.length === 0) {
+    return emptyDocumentTrivia.get(nodes) ?? '';
+  }
+
   const lines: string[] = [];
+  const indentUnit = getIndentString(indentStyle);
+  let trailingLines: string[] = [];
 
   function traverse(node: TreeNode) {
-    const indent = '\t'.repeat(node.depth);
-    lines.push(`${indent}${node.text}`);
+    const source = node.source;
+    if (source) {
+      lines.push(...source.blankLinesBefore);
+    }
+
+    if (
+      source &&
+      source.lines.length > 0 &&
+      source.text === node.text &&
+      source.depth === node.depth
+    ) {
+      // 編集されていないノードは元の行をそのまま書き戻す
+      lines.push(...source.lines);
+    } else {
+      const indent = indentUnit.repeat(node.depth);
+      const [firstLine, ...continuation] = node.text.split('\n');
+      lines.push(`${indent}${encodeFirstLine(firstLine, continuation.length > 0)}`);
+      continuation.forEach((line) => {
+        lines.push(`${indent}${CONTINUATION_MARKER}${line === '' ? '' : ` ${line}`}`);
+      });
+    }
+
+    if (source && source.blankLinesAfter.length > 0) {
+      trailingLines = source.blankLinesAfter;
+    }
+
     if (node.children) {
       node.children.forEach(traverse);
     }
   }
 
   nodes.forEach(traverse);
+  // 文書末尾の空行は、ノードの並びが変わっても末尾に書き出す
+  lines.push(...trailingLines);
   return lines.join('\n');
 }
 
@@ -123,6 +591,28 @@ export function findNodeById(
   return null;
 }
 
+/**
+ * テキストの行番号からその行のノードを検索
+ * 空行の場合は直前のノードを返す
+ * @param nodes parseTextToTree で作成したルートノードの配列
+ * @param line 行番号（1始まり）
+ * @returns 見つかったノード、または null
+ */
+export function findNodeAtLine(nodes: TreeNode[], line: number): TreeNode | null {
+  let found: TreeNode | null = null;
+  // 表示順に走査し、指定行以前に始まる最後のノードを採用する
+  const traverse = (list: TreeNode[]): boolean => {
+    for (const node of list) {
+      if (node.source && node.source.line > line) return false;
+      found = node;
+      if (!traverse(node.children)) return false;
+    }
+    return true;
+  };
+  traverse(nodes);
+  return found;
+}
+
 /**
  * ノードの次のノードを取得（表示順）- インデックスベース最適化版
  * @param flatNodes フラット化済みノード配列
@@ -0,0 +1,173 @@
+import { FileData, StorageData, WorkspaceArchive } from '@/types';
+import { extractFileName, generateFileId } from './localStorage';
+
+/**
+ * ワークスペースのバックアップ形式の現在のバージョン
+ */
+export const WORKSPACE_ARCHIVE_VERSION = 1;
+
+/**
+ * 復元の方法
+ * - merge: 現在のファイルを残したままバックアップのファイルを追加
+ * - replace: 現在のファイル・設定をバックアップの内容で置き換え
+ */
+export type WorkspaceRestoreMode = 'merge' | 'replace';
+
+/**
+ * 復元した場合の変更内容
+ */
+export interface WorkspaceRestorePlan {
+  result: StorageData; // 復元後のデータ
+  added: FileData[]; // 追加されるファイル
+  updated: FileData[]; // 内容が置き換わるファイル（replace のみ）
+  removed: FileData[]; // 削除されるファイル（replace のみ）
+  unchanged: FileData[]; // 同じ内容のため変わらないファイル
+  renamedIds: number; // IDの重複のため新しいIDを割り当てたファイル数
+}
+
+/**
+ * ワークスペースをバックアップ用の文字列に変換
+ * @param data 保存されているデータ（ゴミ箱のファイル・保持期間を含む）
+ * @returns JSON文字列
+ */
+export function createWorkspaceArchive(data: StorageData): string {
+  const archive: WorkspaceArchive = {
+    format: 'tree-editor-workspace',
+    version: WORKSPACE_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+  return JSON.stringify(archive, null, 2);
+}
+
+/**
+ * バックアップファイルを読み込んで検証
+ * バックアップ内でIDが重複しているファイルには新しいIDを割り当てる
+ * @param content バックアップファイルの内容
+ * @returns バックアップのデータ
+ */
+export function parseWorkspaceArchive(content: string): StorageData {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(content);
+  } catch {
+    throw new Error('バックアップファイルの解析に失敗しました');
+  }
+
+  if (
+    typeof archive !== 'object' ||
+    archive === null ||
+    (archive as { format?: unknown }).format !== 'tree-editor-workspace'
+  ) {
+    throw new Error('ワークスペースのバックアップファイルではありません');
+  }
+
+  const { version, data } = archive as { version?: unknown; data?: unknown };
+  if (typeof version !== 'number' || version > WORKSPACE_ARCHIVE_VERSION) {
+    throw new Error(`対応していないバックアップのバージョンです: ${String(version)}`);
+  }
+  if (typeof data !== 'object' || data === null || !Array.isArray((data as { files?: unknown }).files)) {
+    throw new Error('バックアップにファイルの一覧がありません');
+  }
+
+  const { files, currentFileId, theme, trashRetentionDays } = data as {
+    files: unknown[];
+    currentFileId?: unknown;
+    theme?: unknown;
+    trashRetentionDays?: unknown;
+  };
+
+  const seenIds = new Set<string>();
+  const validFiles: FileData[] = files.map((file, index) => {
+    const { id, rawText, lastModified, deletedAt } = (file ?? {}) as Partial<FileData>;
+    if (typeof rawText !== 'string') {
+      throw new Error(`バックアップの ${index + 1} 番目のファイルにテキストがありません`);
+    }
+    const fileId = typeof id === 'string' && id && !seenIds.has(id) ? id : generateFileId();
+    seenIds.add(fileId);
+    return {
+      id: fileId,
+      name: extractFileName(rawText),
+      rawText,
+      lastModified: typeof lastModified === 'string' ? lastModified : new Date().toISOString(),
+      ...(typeof deletedAt === 'string' && { deletedAt }),
+    };
+  });
+
+  // ゴミ箱のファイルだけでは開くファイルがないため復元できない
+  const activeFiles = validFiles.filter((file) => !file.deletedAt);
+  if (activeFiles.length === 0) {
+    throw new Error('バックアップにファイルがありません');
+  }
+
+  return {
+    files: validFiles,
+    currentFileId: activeFiles.some((file) => file.id === currentFileId) ? (currentFileId as string) : activeFiles[0].id,
+    theme: theme === 'dark' ? 'dark' : 'light',
+    ...(typeof trashRetentionDays === 'number' &&
+      Number.isInteger(trashRetentionDays) &&
+      trashRetentionDays >= 1 &&
+      trashRetentionDays <= 365 && { trashRetentionDays }),
+  };
+}
+
+/**
+ * バックアップを復元した場合の変更内容を求める
+ * ゴミ箱のファイルも含めて比較する（ゴミ箱にあるかどうかが異なる場合も内容が異なるものとして扱う）
+ * - merge: 同じIDで同じ内容のファイルはそのまま、内容が異なるものは新しいIDの別ファイルとして追加
+ * - replace: IDが同じファイルは置き換え、バックアップにないファイルは削除（ゴミ箱・保持期間もバックアップの内容にする）
+ * @param current 現在のデータ
+ * @param incoming バックアップのデータ
+ * @param mode 復元の方法
+ * @returns 変更内容
+ */
+export function planWorkspaceRestore(
+  current: StorageData,
+  incoming: StorageData,
+  mode: WorkspaceRestoreMode
+): WorkspaceRestorePlan {
+  const currentById = new Map(current.files.map((file) => [file.id, file]));
+  const isSame = (a: FileData, b: FileData) => a.rawText === b.rawText && !a.deletedAt === !b.deletedAt;
+  const plan: WorkspaceRestorePlan = {
+    result: current,
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: [],
+    renamedIds: 0,
+  };
+
+  if (mode === 'replace') {
+    const incomingIds = new Set(incoming.files.map((file) => file.id));
+    incoming.files.forEach((file) => {
+      const existing = currentById.get(file.id);
+      if (!existing) {
+        plan.added.push(file);
+      } else if (isSame(existing, file)) {
+        plan.unchanged.push(file);
+      } else {
+        plan.updated.push(file);
+      }
+    });
+    plan.removed = current.files.filter((file) => !incomingIds.has(file.id));
+    plan.result = { ...incoming, trashRetentionDays: incoming.trashRetentionDays ?? current.trashRetentionDays };
+    return plan;
+  }
+
+  const files = [...current.files];
+  incoming.files.forEach((file) => {
+    const existing = currentById.get(file.id);
+    if (existing && isSame(existing, file)) {
+      plan.unchanged.push(existing);
+      return;
+    }
+    // 内容の異なる同じIDのファイルは、既存のファイルを残して別ファイルとして追加
+    const added = existing ? { ...file, id: generateFileId() } : file;
+    if (existing) plan.renamedIds++;
+    plan.added.push(added);
+    files.push(added);
+  });
+
+  plan.result = { ...current, files };
+  return plan;
+}